@@ -0,0 +1,95 @@
+import { utils } from 'ethers';
+import { RpcHealthConfig } from './config';
+import { Metric, Metrics } from './metrics';
+import { HealthAwareProvider, MonitoredJsonRpcProvider, RpcEndpoint } from './rpc';
+import { delay } from './utils';
+
+// Errors of a submission the node already has (e.g. received from another endpoint), i.e. accepted.
+const ALREADY_KNOWN = /already known|known transaction|already imported|already exists|already in (the )?mempool/i;
+
+/* Whether a send failed as the node already has the transaction. */
+export const isAlreadyKnownError = (err: unknown): boolean =>
+  ALREADY_KNOWN.test(`${(err as { message?: unknown } | undefined)?.message}`);
+
+// Time (ms) after which a broadcast transaction is no longer watched for inclusion.
+const INCLUSION_WATCH_TIMEOUT = 5 * 60 * 1000; // 5min
+
+/*
+ * A provider sending signed transactions to every endpoint (including broadcast-only ones) in parallel with
+ * `eth_sendRawTransaction`, so a single slow (or censoring) mempool cannot hold a transaction back. A
+ * transaction is sent once accepted by any endpoint. Each is then watched to record which endpoints
+ * first see it included.
+ */
+export class BroadcastProvider extends HealthAwareProvider {
+  private readonly endpoints: MonitoredJsonRpcProvider[];
+
+  constructor(
+    rpcEndpoints: RpcEndpoint[],
+    broadcastUrls: string[],
+    metrics: Metrics,
+    healthConfig: RpcHealthConfig,
+    private readonly pollInterval: number
+  ) {
+    super(rpcEndpoints, metrics, healthConfig);
+    this.endpoints = [
+      ...rpcEndpoints.map(({ provider }) => provider),
+      ...broadcastUrls.map(url => new MonitoredJsonRpcProvider(url)),
+    ];
+  }
+
+  async perform(method: string, params: { [name: string]: any }): Promise<any> {
+    if (method !== 'sendTransaction') {
+      return super.perform(method, params);
+    }
+    return this.broadcast(params.signedTransaction);
+  }
+
+  private async broadcast(signedTransaction: string): Promise<string> {
+    const hash = utils.keccak256(signedTransaction);
+    const errors = await Promise.all(
+      this.endpoints.map(async provider => {
+        try {
+          await provider.send('eth_sendRawTransaction', [signedTransaction]);
+        } catch (err) {
+          if (!isAlreadyKnownError(err)) {
+            this.logger.warn('Endpoint rejected transaction', {
+              args: { endpoint: provider.name, hash, err },
+            });
+            this.metrics.count(Metric.TX_BROADCAST_REJECTED, { Endpoint: provider.name });
+            return err;
+          }
+        }
+        this.metrics.count(Metric.TX_BROADCAST_ACCEPTED, { Endpoint: provider.name });
+        return undefined;
+      })
+    );
+
+    if (errors.every(err => err !== undefined)) {
+      // Rejected by all, the first error is as good as any (e.g. a nonce too low).
+      throw errors[0];
+    }
+    this.watchInclusion(hash).catch(err =>
+      this.logger.error('Failed to watch transaction inclusion', { args: { hash, err } })
+    );
+    return hash;
+  }
+
+  /* Records the endpoint(s) first reporting `hash` as mined, i.e. those seeing new blocks soonest. */
+  private async watchInclusion(hash: string): Promise<void> {
+    const deadline = Date.now() + INCLUSION_WATCH_TIMEOUT;
+    while (Date.now() < deadline) {
+      await delay(this.pollInterval);
+      const receipts = await Promise.all(
+        this.endpoints.map(provider => provider.getTransactionReceipt(hash).catch(() => undefined))
+      );
+      if (receipts.some(receipt => !!receipt)) {
+        this.endpoints
+          .filter((_, i) => !!receipts[i])
+          .forEach(({ name }) =>
+            this.metrics.count(Metric.TX_FIRST_SEEN_INCLUDED, { Endpoint: name })
+          );
+        return;
+      }
+    }
+  }
+}
@@ -1,20 +1,397 @@
+import { readFileSync } from 'fs';
+import { merge, mergeWith } from 'lodash';
 import { z } from 'zod';
-import { Network } from './typed';
+import { FeeStrategyType, LiquidationPolicy, Network, SignerBackend } from './typed';
 
 export const DEFAULT_CONFIG = {
   fromBlock: 27296094,
   network: Network.OPT_GOERLI,
   maxOrderExecAttempts: 10,
   isMetricsEnabled: false,
+  metricsFlushInterval: 10 * 1000, // 10s
   distributorProcessInterval: 3000,
+  signerBackend: SignerBackend.MNEMONIC,
   signerPoolSize: 1,
+  reservedLiquidationSigners: 0,
+  snapshotDir: './snapshots',
+  snapshotInterval: 60 * 1000, // 1min
+  reconciliationInterval: 60 * 60 * 1000, // 1hr
+  wsResubscribeInterval: 30 * 1000, // 30s
+  marketDiscoveryInterval: 5 * 60 * 1000, // 5min
 
   // @see: https://github.com/pyth-network/pyth-js/tree/main/pyth-evm-js
   //   'https://xc-testnet.pyth.network'
   //   'https://xc-mainnet.pyth.network'
   pythPriceServer: 'https://xc-testnet.pyth.network',
+
+  rpc: {
+    // Defaults of each RPC endpoint, lower priority endpoints are preferred.
+    priority: 10,
+    weight: 1,
+    // Time (ms) to wait for an endpoint before also sending the request to the next.
+    stallTimeout: 750,
+  },
+  rpcHealth: {
+    // Interval (ms) between endpoint health checks.
+    checkInterval: 15 * 1000, // 15s
+    // Endpoints exceeding any of these are taken out of the quorum until they recover.
+    maxBlockLag: 5,
+    maxErrorRate: 0.5,
+    maxLatency: 2000, // ms
+  },
+  health: {
+    // Readiness fails when a market's index is more than this many blocks behind the latest block.
+    maxBlockLag: 10,
+    // Readiness fails when the last successful block processing loop is older than this (ms), and
+    // liveness when the last loop (successful or not) is.
+    maxLoopAge: 60 * 1000, // 1min
+  },
+  fees: {
+    // How transactions are priced, see `FeeStrategyType`.
+    strategy: FeeStrategyType.PROVIDER,
+    // Max and priority fees (gwei) used by the fixed strategy.
+    maxFee: 0.1,
+    priorityFee: 0.001,
+    // Number of recent blocks and the percentile of their priority fees used by the percentile strategy.
+    feeHistoryBlocks: 20,
+    feeHistoryPercentile: 50,
+  },
+  txWatchdog: {
+    // Number of blocks a transaction may be pending before it's replaced with bumped fees.
+    replaceAfterBlocks: 5,
+    // Percentage fees are bumped by on each replacement (nodes require at least 10%).
+    feeBumpPercent: 20,
+    // Maximum number of replacements before the transaction is cancelled.
+    maxReplacements: 3,
+    // Interval (ms) between checks for inclusion.
+    pollInterval: 2000,
+    // Time (ms) after which a transaction still not mined is given up on (e.g. stuck at the max fee cap).
+    timeout: 10 * 60 * 1000,
+  },
+  signerBalance: {
+    // Signers with a balance (ETH) below this are taken out of rotation until topped up.
+    minBalance: 0.005,
+    // Interval (ms) between signer balance checks.
+    checkInterval: 60 * 1000, // 1min
+    // Signers with a balance (ETH) below this are topped up to `topUpTarget`, when a funding account is set.
+    topUpThreshold: 0.02,
+    topUpTarget: 0.05,
+    // Maximum ETH sent from the funding account per (UTC) day.
+    maxDailyTopUp: 0.5,
+  },
+
+  keepers: {
+    liquidation: true,
+    delayedOrders: true,
+    delayedOffchainOrders: true,
+    fundingRecompute: false,
+  },
+  tuning: {
+    // Maximum number of transactions to execute in parallel per batch.
+    maxBatchSize: 4,
+    // Wait time (ms) between batches to process the next.
+    batchWaitTime: 100,
+    // An additional buffer (s) added to minAge to avoid calling off-chain orders too early.
+    minAgeBuffer: 3,
+    // An additional buffer (s) added to maxAge to determine if an off-chain order is stale.
+    maxAgeBuffer: 60 * 5, // 5mins
+    // Positions with an estimated liquidation price within this ratio of the asset price are checked on-chain.
+    priceProximityThreshold: 0.05,
+    // Max number of far liquidation price estimates to reconcile on-chain per block.
+    maxFarPricesToUpdate: 1,
+    // Interval (s) after which a far liquidation price estimate is reconciled on-chain.
+    farPriceRecencyCutoff: 6 * 3600, // 6hrs
+    // Interval (s) between checking every position on-chain, including those estimated to be far.
+    liquidationSweepInterval: 10 * 60, // 10mins
+    // What to do with liquidations where the keeper fee does not cover gas (L2 execution + L1 data).
+    unprofitableLiquidationPolicy: LiquidationPolicy.EXECUTE,
+    // Interval (s) to wait before re-evaluating a deferred liquidation.
+    liquidationDeferInterval: 5 * 60, // 5mins
+    // Whether to cancel orders past their execution window (rather than stop tracking them).
+    cancelStaleOrders: false,
+    // Maximum number of cancellation attempts before a stale order is no longer tracked.
+    maxOrderCancelAttempts: 3,
+    // Interval (s) since the last funding recompute after which funding is recomputed.
+    fundingRecomputeMaxAge: 4 * 3600, // 4hrs
+    // Drift of the funding rate (per day) since the last recompute after which funding is recomputed.
+    fundingRecomputeMaxRateDrift: 0.005, // 0.5%
+    // Maximum cost (USD) of a funding recompute, more expensive recomputes are skipped.
+    fundingRecomputeMaxCost: 1,
+    // SLA (s) of the p95 order latency (until mined), breaches are alerted.
+    orderLatencySla: 5 * 60, // 5mins
+  },
 };
 
+const KeeperTypesSchema = z.object({
+  liquidation: z.boolean().default(DEFAULT_CONFIG.keepers.liquidation),
+  delayedOrders: z.boolean().default(DEFAULT_CONFIG.keepers.delayedOrders),
+  delayedOffchainOrders: z.boolean().default(DEFAULT_CONFIG.keepers.delayedOffchainOrders),
+  fundingRecompute: z.boolean().default(DEFAULT_CONFIG.keepers.fundingRecompute),
+});
+
+const KeeperTuningSchema = z.object({
+  maxBatchSize: z
+    .number()
+    .int()
+    .min(1)
+    .default(DEFAULT_CONFIG.tuning.maxBatchSize),
+  batchWaitTime: z
+    .number()
+    .nonnegative()
+    .default(DEFAULT_CONFIG.tuning.batchWaitTime),
+  minAgeBuffer: z
+    .number()
+    .nonnegative()
+    .default(DEFAULT_CONFIG.tuning.minAgeBuffer),
+  maxAgeBuffer: z
+    .number()
+    .nonnegative()
+    .default(DEFAULT_CONFIG.tuning.maxAgeBuffer),
+  priceProximityThreshold: z
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.tuning.priceProximityThreshold),
+  maxFarPricesToUpdate: z
+    .number()
+    .int()
+    .nonnegative()
+    .default(DEFAULT_CONFIG.tuning.maxFarPricesToUpdate),
+  farPriceRecencyCutoff: z
+    .number()
+    .nonnegative()
+    .default(DEFAULT_CONFIG.tuning.farPriceRecencyCutoff),
+  liquidationSweepInterval: z
+    .number()
+    .nonnegative()
+    .default(DEFAULT_CONFIG.tuning.liquidationSweepInterval),
+  unprofitableLiquidationPolicy: z
+    .nativeEnum(LiquidationPolicy)
+    .default(DEFAULT_CONFIG.tuning.unprofitableLiquidationPolicy),
+  liquidationDeferInterval: z
+    .number()
+    .nonnegative()
+    .default(DEFAULT_CONFIG.tuning.liquidationDeferInterval),
+  cancelStaleOrders: z.boolean().default(DEFAULT_CONFIG.tuning.cancelStaleOrders),
+  maxOrderCancelAttempts: z
+    .number()
+    .int()
+    .min(1)
+    .default(DEFAULT_CONFIG.tuning.maxOrderCancelAttempts),
+  fundingRecomputeMaxAge: z
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.tuning.fundingRecomputeMaxAge),
+  fundingRecomputeMaxRateDrift: z
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.tuning.fundingRecomputeMaxRateDrift),
+  fundingRecomputeMaxCost: z
+    .number()
+    .nonnegative()
+    .default(DEFAULT_CONFIG.tuning.fundingRecomputeMaxCost),
+  orderLatencySla: z
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.tuning.orderLatencySla),
+  // Positions with a notional value (USD) at or above this are always liquidated, to protect the market.
+  alwaysLiquidateAboveNotional: z
+    .number()
+    .nonnegative()
+    .optional(),
+});
+
+const RpcConfigSchema = z.object({
+  url: z.string().url(),
+  // Used in logs and metrics, defaults to the host of the URL.
+  name: z
+    .string()
+    .min(1)
+    .optional(),
+  priority: z
+    .number()
+    .int()
+    .default(DEFAULT_CONFIG.rpc.priority),
+  weight: z
+    .number()
+    .int()
+    .positive()
+    .default(DEFAULT_CONFIG.rpc.weight),
+  stallTimeout: z
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.rpc.stallTimeout),
+});
+
+const RpcHealthConfigSchema = z.object({
+  checkInterval: z
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.rpcHealth.checkInterval),
+  maxBlockLag: z
+    .number()
+    .int()
+    .nonnegative()
+    .default(DEFAULT_CONFIG.rpcHealth.maxBlockLag),
+  maxErrorRate: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(DEFAULT_CONFIG.rpcHealth.maxErrorRate),
+  maxLatency: z
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.rpcHealth.maxLatency),
+});
+
+const HealthConfigSchema = z.object({
+  // Port `/healthz` and `/readyz` are served on, not served when undefined.
+  port: z.coerce
+    .number()
+    .int()
+    .positive()
+    .optional(),
+  maxBlockLag: z
+    .number()
+    .int()
+    .nonnegative()
+    .default(DEFAULT_CONFIG.health.maxBlockLag),
+  maxLoopAge: z
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.health.maxLoopAge),
+});
+
+const FeeConfigSchema = z.object({
+  strategy: z.nativeEnum(FeeStrategyType).default(DEFAULT_CONFIG.fees.strategy),
+  maxFee: z
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.fees.maxFee),
+  priorityFee: z
+    .number()
+    .nonnegative()
+    .default(DEFAULT_CONFIG.fees.priorityFee),
+  feeHistoryBlocks: z
+    .number()
+    .int()
+    .min(1)
+    .default(DEFAULT_CONFIG.fees.feeHistoryBlocks),
+  feeHistoryPercentile: z
+    .number()
+    .min(0)
+    .max(100)
+    .default(DEFAULT_CONFIG.fees.feeHistoryPercentile),
+  // Upper bound (gwei) of the max fee of any transaction, including replacements.
+  maxFeeCap: z.coerce
+    .number()
+    .positive()
+    .optional(),
+});
+
+const TxWatchdogConfigSchema = z.object({
+  replaceAfterBlocks: z
+    .number()
+    .int()
+    .min(1)
+    .default(DEFAULT_CONFIG.txWatchdog.replaceAfterBlocks),
+  feeBumpPercent: z
+    .number()
+    .min(10)
+    .default(DEFAULT_CONFIG.txWatchdog.feeBumpPercent),
+  maxReplacements: z
+    .number()
+    .int()
+    .nonnegative()
+    .default(DEFAULT_CONFIG.txWatchdog.maxReplacements),
+  pollInterval: z
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.txWatchdog.pollInterval),
+  timeout: z
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.txWatchdog.timeout),
+});
+
+const SignerBalanceConfigSchema = z
+  .object({
+    minBalance: z
+      .number()
+      .nonnegative()
+      .default(DEFAULT_CONFIG.signerBalance.minBalance),
+    checkInterval: z
+      .number()
+      .positive()
+      .default(DEFAULT_CONFIG.signerBalance.checkInterval),
+    topUpThreshold: z
+      .number()
+      .nonnegative()
+      .default(DEFAULT_CONFIG.signerBalance.topUpThreshold),
+    topUpTarget: z
+      .number()
+      .positive()
+      .default(DEFAULT_CONFIG.signerBalance.topUpTarget),
+    maxDailyTopUp: z
+      .number()
+      .nonnegative()
+      .default(DEFAULT_CONFIG.signerBalance.maxDailyTopUp),
+  })
+  .refine(({ topUpThreshold, topUpTarget }) => topUpTarget > topUpThreshold, {
+    message: 'topUpTarget must be greater than topUpThreshold',
+  });
+
+// Per-market overrides, any field left undefined falls back to the global value.
+const MarketOverrideSchema = z.object({
+  keepers: KeeperTypesSchema.partial().default({}),
+  tuning: KeeperTuningSchema.partial().default({}),
+});
+
+// Name of the group of signers not assigned to any configured group.
+export const DEFAULT_SIGNER_GROUP = 'default';
+
+// Signers (by index, e.g. HD wallet account) dedicated to a set of keeper types and/or markets.
+const SignerGroupSchema = z.object({
+  signers: z
+    .array(
+      z
+        .number()
+        .int()
+        .nonnegative()
+    )
+    .min(1),
+  // Keeper types and markets (by key e.g. sETHPERP) using this group, any when undefined.
+  keepers: z.array(KeeperTypesSchema.keyof()).optional(),
+  markets: z.array(z.string().min(1)).optional(),
+  reservedLiquidationSigners: z
+    .number()
+    .int()
+    .nonnegative()
+    .default(0),
+});
+
+const SignerGroupsSchema = z
+  .record(SignerGroupSchema)
+  .refine(groups => !(DEFAULT_SIGNER_GROUP in groups), {
+    message: `'${DEFAULT_SIGNER_GROUP}' is reserved for signers not assigned to a group`,
+  })
+  .refine(
+    groups => {
+      const signers = Object.values(groups).flatMap(({ signers }) => signers);
+      return new Set(signers).size === signers.length;
+    },
+    { message: 'A signer can only be assigned to one group' }
+  );
+
+export type KeeperTypes = z.infer<typeof KeeperTypesSchema>;
+export type KeeperTuning = z.infer<typeof KeeperTuningSchema>;
+export type RpcConfig = z.infer<typeof RpcConfigSchema>;
+export type RpcHealthConfig = z.infer<typeof RpcHealthConfigSchema>;
+export type HealthConfig = z.infer<typeof HealthConfigSchema>;
+export type FeeConfig = z.infer<typeof FeeConfigSchema>;
+export type TxWatchdogConfig = z.infer<typeof TxWatchdogConfigSchema>;
+export type SignerBalanceConfig = z.infer<typeof SignerBalanceConfigSchema>;
+export type SignerGroupConfig = z.infer<typeof SignerGroupSchema>;
+
 export const KeeperConfigSchema = z.object({
   fromBlock: z.coerce
     .number()
@@ -29,22 +406,118 @@ export const KeeperConfigSchema = z.object({
     .positive()
     .min(1)
     .default(DEFAULT_CONFIG.signerPoolSize),
-  providerApiKeys: z.object({
-    infura: z.string().min(1),
-    alchemy: z.string().optional(),
-  }),
+  // Number of signers only used for liquidations, must be fewer than the number of signers.
+  reservedLiquidationSigners: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(DEFAULT_CONFIG.reservedLiquidationSigners),
+  signerGroups: SignerGroupsSchema.default({}),
+  snapshotDir: z
+    .string()
+    .min(1)
+    .default(DEFAULT_CONFIG.snapshotDir),
+  snapshotInterval: z.coerce
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.snapshotInterval),
+  reconciliationInterval: z.coerce
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.reconciliationInterval),
+  wsProviderUrl: z
+    .string()
+    .url()
+    .optional(),
+  wsResubscribeInterval: z.coerce
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.wsResubscribeInterval),
+  marketDiscoveryInterval: z.coerce
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.marketDiscoveryInterval),
+  rpcs: z.array(RpcConfigSchema).default([]),
+  rpcHealth: RpcHealthConfigSchema.default({}),
+  health: HealthConfigSchema.default({}),
+  // Legacy Infura and (fallback) Alchemy API keys or RPC URLs, only used when no `rpcs` are configured.
+  providerApiKeys: z
+    .object({
+      infura: z
+        .string()
+        .min(1)
+        .optional(),
+      alchemy: z
+        .string()
+        .min(1)
+        .optional(),
+    })
+    .default({}),
+  // Endpoints signed transactions are also broadcast to (e.g. private mempools), besides the providers.
+  broadcastUrls: z.array(z.string().url()).default([]),
   pythPriceServer: z
     .string()
     .url()
     .default(DEFAULT_CONFIG.pythPriceServer),
   network: z.nativeEnum(Network).default(DEFAULT_CONFIG.network),
-  ethHdwalletMnemonic: z.string().min(1),
+  signerBalance: SignerBalanceConfigSchema.default({}),
+  // Private key of the account signers are topped up from. Top-ups are disabled when undefined.
+  fundingPrivateKey: z
+    .string()
+    .min(1)
+    .optional(),
+  fees: FeeConfigSchema.default({}),
+  txWatchdog: TxWatchdogConfigSchema.default({}),
+  keepers: KeeperTypesSchema.default({}),
+  tuning: KeeperTuningSchema.default({}),
+  markets: z
+    .object({
+      // When defined, only markets (by key e.g. sETHPERP) in the allowlist are kept.
+      allow: z.array(z.string().min(1)).optional(),
+      deny: z.array(z.string().min(1)).default([]),
+      overrides: z.record(MarketOverrideSchema).default({}),
+    })
+    .default({}),
+  signerBackend: z.nativeEnum(SignerBackend).default(DEFAULT_CONFIG.signerBackend),
+  ethHdwalletMnemonic: z
+    .string()
+    .min(1)
+    .optional(),
+  signerPrivateKeys: z.array(z.string().min(1)).optional(),
+  keystore: z
+    .object({
+      files: z.array(z.string().min(1)).default([]),
+      // Read from the terminal when undefined.
+      passwordFile: z
+        .string()
+        .min(1)
+        .optional(),
+    })
+    .default({}),
+  remoteSigner: z
+    .object({
+      url: z.string().url(),
+      // Defaults to every account held by the remote signer (`eth_accounts`).
+      addresses: z.array(z.string().min(1)).optional(),
+    })
+    .optional(),
   maxOrderExecAttempts: z.coerce
     .number()
     .min(1)
     .max(1024)
     .default(DEFAULT_CONFIG.maxOrderExecAttempts),
   isMetricsEnabled: z.coerce.boolean().default(DEFAULT_CONFIG.isMetricsEnabled),
+  // Interval (ms) between flushes of buffered data points to CloudWatch.
+  metricsFlushInterval: z.coerce
+    .number()
+    .positive()
+    .default(DEFAULT_CONFIG.metricsFlushInterval),
+  // Port `/metrics` is served on for Prometheus to scrape, not served when undefined.
+  prometheusPort: z.coerce
+    .number()
+    .int()
+    .positive()
+    .optional(),
   aws: z.object({
     region: z.string().optional(),
     accessKeyId: z.string().optional(),
@@ -54,26 +527,173 @@ export const KeeperConfigSchema = z.object({
 
 export type KeeperConfig = z.infer<typeof KeeperConfigSchema>;
 
+/* Each signer backend requires its own keys (or where to find them), and an RPC endpoint is required. */
+const refineKeeperConfig = (config: KeeperConfig, ctx: z.RefinementCtx): void => {
+  const required: Record<SignerBackend, [string, unknown]> = {
+    [SignerBackend.MNEMONIC]: ['ethHdwalletMnemonic', config.ethHdwalletMnemonic],
+    [SignerBackend.PRIVATE_KEYS]: ['signerPrivateKeys', config.signerPrivateKeys?.length],
+    [SignerBackend.KEYSTORE]: ['keystore', config.keystore.files.length],
+    [SignerBackend.REMOTE]: ['remoteSigner', config.remoteSigner],
+  };
+  const [path, value] = required[config.signerBackend];
+  if (!value) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [path],
+      message: `Required by the '${config.signerBackend}' signer backend`,
+    });
+  }
+
+  if (!getRpcConfigs(config).length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['rpcs'],
+      message: 'At least one RPC endpoint (or PROVIDER_API_KEY_INFURA) is required',
+    });
+  }
+};
+
 let _config: KeeperConfig | undefined;
 
+/* Reads the optional structured (JSON) config file. Values in the file take precedence over env vars. */
+const readConfigFile = (path?: string): Record<string, unknown> => {
+  if (!path) {
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new Error(`Failed to read config file '${path}': ${(err as Error).message}`);
+  }
+};
+
+// Infura and Alchemy endpoints of each network, the legacy API keys are appended.
+const INFURA_URLS: Record<Network, string> = {
+  [Network.OPT]: 'https://optimism-mainnet.infura.io/v3/',
+  [Network.OPT_GOERLI]: 'https://optimism-goerli.infura.io/v3/',
+};
+const ALCHEMY_URLS: Record<Network, string> = {
+  [Network.OPT]: 'https://opt-mainnet.g.alchemy.com/v2/',
+  [Network.OPT_GOERLI]: 'https://opt-goerli.g.alchemy.com/v2/',
+};
+
+/* The RPC URL of a legacy provider API key, which may already be a full URL. */
+const getProviderUrl = (baseUrl: string, apiKey?: string): string | undefined => {
+  if (!apiKey) {
+    return undefined;
+  }
+  return /^(https?|wss?):\/\//i.test(apiKey) ? apiKey : `${baseUrl}${apiKey}`;
+};
+
+/* The configured RPC endpoints, else the legacy Infura and (lower priority) Alchemy URLs. */
+export const getRpcConfigs = (config: KeeperConfig): RpcConfig[] => {
+  if (config.rpcs.length) {
+    return config.rpcs;
+  }
+  const { infura, alchemy } = config.providerApiKeys;
+  return [
+    getProviderUrl(INFURA_URLS[config.network], infura),
+    getProviderUrl(ALCHEMY_URLS[config.network], alchemy),
+  ]
+    .map(
+      (url, i) =>
+        url && { ...DEFAULT_CONFIG.rpc, url, priority: (i + 1) * DEFAULT_CONFIG.rpc.priority }
+    )
+    .filter((rpc): rpc is RpcConfig => !!rpc);
+};
+
+/* Whether a market should be kept given the configured allowlist and denylist. */
+export const isMarketKept = (config: KeeperConfig, marketKey: string): boolean =>
+  (!config.markets.allow || config.markets.allow.includes(marketKey)) &&
+  !config.markets.deny.includes(marketKey);
+
+/*
+ * Resolves the signer group of a keeper type in a market. The most specific group wins (one listing both
+ * the market and keeper type, then the market, then the keeper type), else the default group.
+ */
+export const getSignerGroup = (
+  config: KeeperConfig,
+  keeperType: keyof KeeperTypes,
+  marketKey: string
+): string => {
+  let match: [string, number] = [DEFAULT_SIGNER_GROUP, -1];
+  Object.entries(config.signerGroups).forEach(([name, { keepers, markets }]) => {
+    if (keepers?.includes(keeperType) === false || markets?.includes(marketKey) === false) {
+      return;
+    }
+    const specificity = (markets ? 2 : 0) + (keepers ? 1 : 0);
+    if (specificity > match[1]) {
+      match = [name, specificity];
+    }
+  });
+  return match[0];
+};
+
+/* Resolves the keeper types and tuning for a market, applying its overrides over the global values. */
+export const getMarketKeeperConfig = (
+  config: KeeperConfig,
+  marketKey: string
+): { keepers: KeeperTypes; tuning: KeeperTuning } => {
+  const overrides = config.markets.overrides[marketKey];
+  return {
+    keepers: merge({}, config.keepers, overrides?.keepers),
+    tuning: merge({}, config.tuning, overrides?.tuning),
+  };
+};
+
 export const getConfig = (force = false): KeeperConfig => {
   if (_config && !force) {
     return _config;
   }
 
-  const result = KeeperConfigSchema.safeParse({
+  const env = {
     fromBlock: process.env.FROM_BLOCK,
     signerPoolSize: process.env.SIGNER_POOL_SIZE,
+    reservedLiquidationSigners: process.env.RESERVED_LIQUIDATION_SIGNERS,
+    // Listed in order of priority.
+    rpcs: process.env.RPC_URLS?.split(',').map((url, i) => ({
+      url,
+      priority: (i + 1) * DEFAULT_CONFIG.rpc.priority,
+    })),
     providerApiKeys: {
       infura: process.env.PROVIDER_API_KEY_INFURA,
       alchemy: process.env.PROVIDER_API_KEY_ALCHEMY,
     },
     distributorProcessInterval: process.env.DISTRIBUTOR_PROCESS_INTERVAL,
+    wsProviderUrl: process.env.WS_PROVIDER_URL,
+    wsResubscribeInterval: process.env.WS_RESUBSCRIBE_INTERVAL,
+    marketDiscoveryInterval: process.env.MARKET_DISCOVERY_INTERVAL,
+    snapshotDir: process.env.SNAPSHOT_DIR,
+    snapshotInterval: process.env.SNAPSHOT_INTERVAL,
+    reconciliationInterval: process.env.RECONCILIATION_INTERVAL,
     network: process.env.NETWORK,
+    signerBackend: process.env.SIGNER_BACKEND,
     ethHdwalletMnemonic: process.env.ETH_HDWALLET_MNEMONIC,
+    signerPrivateKeys: process.env.SIGNER_PRIVATE_KEYS?.split(','),
+    keystore: {
+      files: process.env.KEYSTORE_FILES?.split(','),
+      passwordFile: process.env.KEYSTORE_PASSWORD_FILE,
+    },
+    remoteSigner: process.env.REMOTE_SIGNER_URL
+      ? {
+          url: process.env.REMOTE_SIGNER_URL,
+          addresses: process.env.REMOTE_SIGNER_ADDRESSES?.split(','),
+        }
+      : undefined,
+    fundingPrivateKey: process.env.FUNDING_PRIVATE_KEY,
+    broadcastUrls: process.env.BROADCAST_RPC_URLS?.split(','),
     pythPriceServer: process.env.PYTH_PRICE_SERVER,
     maxOrderExecAttempts: process.env.MAX_ORDER_EXEC_ATTEMPTS,
     isMetricsEnabled: process.env.METRICS_ENABLED === '1',
+    metricsFlushInterval: process.env.METRICS_FLUSH_INTERVAL,
+    prometheusPort: process.env.METRICS_PROMETHEUS_PORT,
+    health: {
+      port: process.env.HEALTH_PORT,
+    },
+    fees: {
+      strategy: process.env.FEE_STRATEGY,
+      maxFeeCap: process.env.MAX_FEE_CAP,
+    },
 
     // This should really not exist? If deployed to AWS, VM should be IAM configured.
     aws: {
@@ -81,7 +701,15 @@ export const getConfig = (force = false): KeeperConfig => {
       accessKeyId: process.env.AWS_ACCESS_KEY,
       secretAccessKey: process.env.AWS_SECRET_KEY,
     },
-  });
+  };
+
+  // Env vars are the base layer, the config file is merged over the top. Arrays are replaced, not merged.
+  const file = readConfigFile(process.env.KEEPER_CONFIG_FILE);
+  const result = KeeperConfigSchema.superRefine(refineKeeperConfig).safeParse(
+    mergeWith({}, env, file, (_: unknown, value: unknown) =>
+      Array.isArray(value) ? value : undefined
+    )
+  );
 
   if (!result.success) {
     throw result.error;
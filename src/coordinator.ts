@@ -0,0 +1,495 @@
+import { Event, providers } from 'ethers';
+import { groupBy, last, min, uniq } from 'lodash';
+import { Logger } from 'winston';
+import { HealthConfig } from './config';
+import { Distributor } from './distributor';
+import { combineHealthChecks, HealthCheck } from './health';
+import { getEvents } from './keepers/helpers';
+import { createLogger } from './logging';
+import { Metric, Metrics } from './metrics';
+import { delay, sendTG } from './utils';
+import { BlockSubscription, LogSubscriptionFilter } from './subscription';
+
+interface BlockHash {
+  number: number;
+  hash: string;
+}
+
+/*
+ * A single block clock shared by all markets. Each tick fetches the latest block and the logs for every
+ * market once, then routes decoded events to the `Distributor` of the market that emitted them.
+ */
+export class Coordinator {
+  private readonly logger: Logger;
+  private distributors: Distributor[] = [];
+  private lastProcessedBlock?: number;
+  private lastReconciliationTime = 0;
+
+  // Distributors added at runtime which are still being indexed, and those ready to join the next tick.
+  private indexingDistributors: Distributor[] = [];
+  private readyDistributors: Distributor[] = [];
+
+  // Ring of recently processed blocks (oldest first) used to detect reorgs.
+  private recentBlocks: BlockHash[] = [];
+
+  // Whether distributors are being rebuilt, the latest block seen and when the block processing loop
+  // last completed (successfully or not), used in health checks.
+  private isRebuilding = false;
+  private latestBlock?: number;
+  private lastLoopTime?: number;
+  private lastSuccessfulLoopTime?: number;
+
+  private readonly LISTEN_ERROR_WAIT_TIME = 15 * 1000; // 15s
+  protected readonly START_TIME = Date.now();
+
+  private readonly MAX_BLOCK_RANGE = 1_000_000;
+
+  // Maximum number of processed blocks to track for reorg detection.
+  private readonly MAX_REORG_DEPTH = 32;
+
+  constructor(
+    private readonly provider: providers.BaseProvider,
+    private readonly metrics: Metrics,
+    private readonly fromBlock: number,
+    private readonly distributorProcessInterval: number,
+    private readonly reconciliationInterval: number,
+    private readonly subscription?: BlockSubscription
+  ) {
+    this.logger = createLogger('Coordinator');
+  }
+
+  /* Given an array of distributors (one per market), include them in each tick. */
+  registerDistributors(distributors: Distributor[]) {
+    distributors.forEach(distributor => this.distributors.push(distributor));
+    this.logger.info('Registered distributors', { args: { n: this.distributors.length } });
+  }
+
+  /* All distributors, including those added at runtime that have yet to join a tick. */
+  getDistributors(): Distributor[] {
+    return [...this.distributors, ...this.indexingDistributors, ...this.readyDistributors];
+  }
+
+  /* Registers a market discovered at runtime. It's indexed in the background then joins the next tick. */
+  addDistributor(distributor: Distributor): void {
+    this.indexingDistributors.push(distributor);
+
+    const index = async () => {
+      await distributor.restoreSnapshot();
+      await this.indexDistributors([distributor]);
+      this.readyDistributors.push(distributor);
+    };
+    index()
+      .catch(err => {
+        // Discovery will pick the market up again on its next run.
+        this.logger.error('Failed to index added market', {
+          args: { marketKey: distributor.marketKey, err },
+        });
+        sendTG(`Failed to index added market ${distributor.marketKey}. ${(err as Error).message}`);
+      })
+      .finally(() => {
+        this.indexingDistributors = this.indexingDistributors.filter(d => d !== distributor);
+      });
+  }
+
+  /* Stops and removes a market's distributor, e.g. when the market has been retired. */
+  async removeDistributor(distributor: Distributor): Promise<void> {
+    const isNotRemoved = (d: Distributor) => d !== distributor;
+    this.distributors = this.distributors.filter(isNotRemoved);
+    this.indexingDistributors = this.indexingDistributors.filter(isNotRemoved);
+    this.readyDistributors = this.readyDistributors.filter(isNotRemoved);
+
+    this.subscription?.subscribe(this.getLogSubscriptionFilter());
+    await distributor.stop();
+  }
+
+  /* Persists snapshots of every distributor (e.g. on shutdown). */
+  async saveSnapshots(): Promise<void> {
+    await Promise.all(this.getDistributors().map(distributor => distributor.saveSnapshot()));
+  }
+
+  /* Moves distributors indexed in the background into the tick, once caught up with the coordinator. */
+  private async admitDistributors(): Promise<void> {
+    if (!this.readyDistributors.length || this.lastProcessedBlock === undefined) {
+      return;
+    }
+
+    const distributors = this.readyDistributors;
+    this.readyDistributors = [];
+
+    // Catch up on blocks the coordinator processed while they were being indexed.
+    const toBlock = this.lastProcessedBlock;
+    const fromBlock = min(
+      distributors.map(({ lastProcessedBlock }) => (lastProcessedBlock ?? 0) + 1)
+    );
+    if (fromBlock !== undefined && fromBlock <= toBlock) {
+      const eventsByMarket = await this.getEventsByMarket(distributors, fromBlock, toBlock);
+      await Promise.all(
+        distributors.map(distributor =>
+          distributor.index(this.getMarketEvents(eventsByMarket, distributor), toBlock)
+        )
+      );
+    }
+
+    // Align with the coordinator so reorgs can be rolled back from this point onwards. Those indexed
+    // beyond it keep the hash of their own last block.
+    const toBlockHash = last(this.recentBlocks)?.hash;
+    await Promise.all(
+      distributors.map(distributor => {
+        const blockNumber = Math.max(distributor.lastProcessedBlock ?? toBlock, toBlock);
+        return distributor.completeIndex(
+          blockNumber,
+          blockNumber === toBlock ? toBlockHash : undefined
+        );
+      })
+    );
+
+    this.distributors.push(...distributors);
+    distributors.forEach(distributor => this.reconcileDistributor(distributor));
+    this.subscription?.subscribe(this.getLogSubscriptionFilter());
+    this.logger.info('Added markets to tick', {
+      args: { markets: distributors.map(({ marketKey }) => marketKey).join(',') },
+    });
+  }
+
+  /* Checks a market's keeper indexes against on-chain state, alerting on any corrections made. */
+  private async reconcileDistributor(distributor: Distributor): Promise<void> {
+    const corrections = await distributor.reconcile();
+    if (corrections === undefined) {
+      return;
+    }
+
+    const { marketKey } = distributor;
+    this.metrics.gauge(Metric.INDEX_CORRECTIONS, corrections, { MarketKey: marketKey });
+    if (corrections > 0) {
+      this.logger.warn('Corrected keeper indexes from on-chain state', {
+        args: { marketKey, corrections },
+      });
+      sendTG(`Reconciliation corrected ${corrections} index entries in ${marketKey}`);
+    }
+  }
+
+  /* Fetch events for all `distributors` in a single query, grouped by (lowercase) market address. */
+  private async getEventsByMarket(
+    distributors: Distributor[],
+    fromBlock: number,
+    toBlock: number
+  ): Promise<Record<string, Event[]>> {
+    const events = await getEvents(
+      uniq(distributors.flatMap(distributor => distributor.getEventsOfInterest())),
+      distributors.map(({ market }) => market),
+      this.provider,
+      { fromBlock, toBlock, logger: this.logger, metrics: this.metrics }
+    );
+    return groupBy(events, ({ address }) => address.toLowerCase());
+  }
+
+  private getMarketEvents(
+    eventsByMarket: Record<string, Event[]>,
+    distributor: Distributor
+  ): Event[] {
+    return eventsByMarket[distributor.market.address.toLowerCase()] ?? [];
+  }
+
+  /* Topics and addresses of all events any registered keeper is interested in. */
+  private getLogSubscriptionFilter(): LogSubscriptionFilter {
+    const eventNames = uniq(
+      this.distributors.flatMap(distributor => distributor.getEventsOfInterest())
+    );
+    const markets = this.distributors.map(({ market }) => market);
+    return {
+      topics: markets.length
+        ? [eventNames.map(eventName => markets[0].interface.getEventTopic(eventName))]
+        : [],
+      addresses: markets.map(({ address }) => address),
+    };
+  }
+
+  /* Wait until the next block should be processed, either on a subscription notification or by polling. */
+  private async waitForNextBlock(): Promise<void> {
+    if (this.subscription) {
+      // A notification usually arrives well before the interval. When the socket is down this is
+      // equivalent to polling.
+      await this.subscription.wait(this.distributorProcessInterval);
+    } else {
+      await delay(this.distributorProcessInterval);
+    }
+  }
+
+  private recordProcessedBlock(block: providers.Block): void {
+    this.lastProcessedBlock = block.number;
+    this.recentBlocks.push({ number: block.number, hash: block.hash });
+    if (this.recentBlocks.length > this.MAX_REORG_DEPTH) {
+      this.recentBlocks.shift();
+    }
+  }
+
+  /* Perform RPC calls to fetch past event data then pass to `distributors` for indexing. */
+  private async indexDistributors(distributors: Distributor[]): Promise<providers.Block> {
+    const block = await this.provider.getBlock('latest');
+    const startBlock =
+      min(
+        distributors.map(({ lastProcessedBlock }) =>
+          lastProcessedBlock === undefined ? this.fromBlock : lastProcessedBlock + 1
+        )
+      ) ?? this.fromBlock;
+    let fromBlock = startBlock;
+
+    while (fromBlock <= block.number) {
+      const toBlock = Math.min(fromBlock + this.MAX_BLOCK_RANGE, block.number);
+      const eventsByMarket = await this.getEventsByMarket(distributors, fromBlock, toBlock);
+
+      this.logger.info('Rebuilding index...', {
+        args: {
+          fromBlock,
+          toBlock,
+          markets: distributors.length,
+          segments: (block.number - startBlock) / this.MAX_BLOCK_RANGE,
+        },
+      });
+      await Promise.all(
+        distributors.map(distributor =>
+          distributor.index(this.getMarketEvents(eventsByMarket, distributor), toBlock)
+        )
+      );
+
+      fromBlock = toBlock + 1;
+    }
+
+    await Promise.all(
+      distributors.map(distributor => distributor.completeIndex(block.number, block.hash))
+    );
+    return block;
+  }
+
+  /* Rebuilds the index of `distributors` (e.g. on startup), the keeper is not ready meanwhile. */
+  private async rebuildDistributors(distributors: Distributor[]): Promise<providers.Block> {
+    this.isRebuilding = true;
+    try {
+      return await this.indexDistributors(distributors);
+    } finally {
+      this.isRebuilding = false;
+    }
+  }
+
+  /* Detects whether the chain has diverged from processed blocks and if so, rolls back distributors. */
+  private async rollbackOnReorg(toBlock: providers.Block): Promise<void> {
+    const head = last(this.recentBlocks);
+    if (!head) {
+      return;
+    }
+
+    // Avoid an additional RPC call in the common case of processing sequential blocks, or the same
+    // block again (which may have been replaced at the same height).
+    let headHash: string | undefined;
+    if (toBlock.number === head.number + 1) {
+      headHash = toBlock.parentHash;
+    } else if (toBlock.number === head.number) {
+      headHash = toBlock.hash;
+    } else {
+      headHash = (await this.provider.getBlock(head.number))?.hash;
+    }
+    // Unknown when the endpoint has yet to see the head block, checked again on the next tick.
+    if (headHash === undefined || headHash === head.hash) {
+      return;
+    }
+
+    // Walk back to find the most recent processed block still on the canonical chain.
+    let forkBlock: BlockHash | undefined;
+    for (let i = this.recentBlocks.length - 2; i >= 0 && !forkBlock; i--) {
+      const canonicalBlock = await this.provider.getBlock(this.recentBlocks[i].number);
+      if (canonicalBlock.hash === this.recentBlocks[i].hash) {
+        forkBlock = this.recentBlocks[i];
+        this.recentBlocks = this.recentBlocks.slice(0, i + 1);
+      }
+    }
+
+    const depth = forkBlock ? head.number - forkBlock.number : this.MAX_REORG_DEPTH;
+    this.logger.warn('Chain reorg detected, rolling back keeper indexes', {
+      args: { depth, forkBlock: forkBlock?.number, headBlock: head.number },
+    });
+    this.metrics.count(Metric.DISTRIBUTOR_REORG);
+    this.metrics.gauge(Metric.DISTRIBUTOR_REORG_DEPTH, depth);
+
+    // Distributors that cannot roll back far enough (all of them when no tracked block is canonical)
+    // must be rebuilt from scratch.
+    const staleDistributors: Distributor[] = [];
+    await Promise.all(
+      this.distributors.map(async distributor => {
+        if (!forkBlock || !(await distributor.rollback(forkBlock.number))) {
+          await distributor.reset();
+          staleDistributors.push(distributor);
+        }
+      })
+    );
+
+    if (staleDistributors.length) {
+      this.logger.error('Chain reorg deeper than tracked history, rebuilding index', {
+        args: { maxDepth: this.MAX_REORG_DEPTH, markets: staleDistributors.length },
+      });
+      const block = await this.rebuildDistributors(staleDistributors);
+      if (!forkBlock) {
+        this.recentBlocks = [];
+        this.recordProcessedBlock(block);
+        return;
+      }
+    }
+
+    // Events after the fork are replayed when processing `toBlock`.
+    if (forkBlock) {
+      this.lastProcessedBlock = forkBlock.number;
+    }
+  }
+
+  private async processBlock(): Promise<void> {
+    const startTime = Date.now();
+    await this.admitDistributors();
+    const toBlock = await this.provider.getBlock('latest');
+    this.latestBlock = toBlock.number;
+
+    if (this.lastProcessedBlock !== undefined) {
+      await this.rollbackOnReorg(toBlock);
+    }
+
+    if (this.lastProcessedBlock !== undefined && toBlock.number > this.lastProcessedBlock) {
+      const fromBlock = this.lastProcessedBlock + 1;
+      const blockDelta = toBlock.number - fromBlock;
+      this.metrics.gauge(Metric.DISTRIBUTOR_BLOCK_DELTA, blockDelta);
+
+      const eventsByMarket = await this.getEventsByMarket(
+        this.distributors,
+        fromBlock,
+        toBlock.number
+      );
+
+      this.logger.info('Distributing to markets', {
+        args: {
+          markets: this.distributors.length,
+          fromBlock,
+          toBlock: toBlock.number,
+          blockDelta,
+          events: Object.values(eventsByMarket).flat(1).length,
+        },
+      });
+      this.distributors.forEach(distributor =>
+        distributor.disburse(
+          this.getMarketEvents(eventsByMarket, distributor),
+          fromBlock,
+          toBlock,
+          async (from, to) =>
+            this.getMarketEvents(await this.getEventsByMarket([distributor], from, to), distributor)
+        )
+      );
+      this.recordProcessedBlock(toBlock);
+    } else {
+      this.logger.info('Latest block time is the same as previously processed', {
+        args: { blockNumber: toBlock.number },
+      });
+    }
+    this.recordUptime();
+
+    // Reconciliation is queued after the block's events, the first tick covers startup.
+    if (Date.now() - this.lastReconciliationTime >= this.reconciliationInterval) {
+      this.lastReconciliationTime = Date.now();
+      this.distributors.forEach(distributor => this.reconcileDistributor(distributor));
+    }
+
+    // Executions are queued per market so a slow market does not hold up others.
+    this.distributors.forEach(distributor => distributor.execute());
+
+    this.metrics.time(Metric.DISTRIBUTOR_BLOCK_PROCESS_TIME, Date.now() - startTime);
+  }
+
+  // The metric namespace can be further chunked by keeper type e.g. PerpsV2MainnetOvm/Liquidations/KeeperUpTime
+  private async recordUptime(): Promise<void> {
+    try {
+      const uptime = Date.now() - this.START_TIME;
+      this.logger.info('Recording keeper uptime', { args: { uptime } });
+
+      // A failure to submit metric should not cause application to halt. Instead, alerts will pick this up if it happens
+      // for a long enough duration. Essentially, do _not_ force keeper to slowdown operation just to track metrics
+      // for offline usage/monitoring.
+      this.metrics.time(Metric.KEEPER_UPTIME, uptime);
+    } catch (err) {
+      // NOTE: We do _not_ rethrow because uptime isn't `await` wrapped.
+      this.logger.error('Failed to record keeper uptime', err);
+    }
+  }
+
+  /*
+   * Whether the keeper is live (the block processing loop is running) and ready (the index is built, every
+   * market is caught up and the last loop succeeded recently), along with each market and its keepers.
+   */
+  healthcheck({ maxBlockLag, maxLoopAge }: HealthConfig): HealthCheck {
+    const now = Date.now();
+    const liveness: string[] = [];
+    const readiness: string[] = [];
+
+    const loopAge = now - (this.lastLoopTime ?? this.START_TIME);
+    if (!this.isRebuilding && loopAge > maxLoopAge) {
+      liveness.push(`Block processing loop last completed ${loopAge}ms ago`);
+    }
+
+    if (this.isRebuilding) {
+      readiness.push('Rebuilding index');
+    } else if (this.lastSuccessfulLoopTime === undefined) {
+      readiness.push('Block processing loop has not yet succeeded');
+    } else if (now - this.lastSuccessfulLoopTime > maxLoopAge) {
+      readiness.push(
+        `Block processing loop last succeeded ${now - this.lastSuccessfulLoopTime}ms ago`
+      );
+    }
+
+    return combineHealthChecks([
+      { liveness, readiness },
+      ...this.distributors.map(distributor =>
+        distributor.healthcheck(this.latestBlock, maxBlockLag)
+      ),
+    ]);
+  }
+
+  /* Listen on new blocks produced then subsequently bulk op. */
+  async listen(): Promise<void> {
+    try {
+      // Distributors already indexed (i.e. when retrying) resume from memory rather than their snapshot.
+      await Promise.all(
+        this.distributors
+          .filter(({ lastProcessedBlock }) => lastProcessedBlock === undefined)
+          .map(distributor => distributor.restoreSnapshot())
+      );
+      const block = await this.rebuildDistributors(this.distributors);
+      this.lastLoopTime = Date.now();
+      this.recentBlocks = [];
+      this.recordProcessedBlock(block);
+      this.distributors.forEach(distributor => distributor.execute());
+
+      this.logger.info('Begin processing blocks 🚀...', {
+        args: {
+          lastProcessedBlock: this.lastProcessedBlock,
+          mode: this.subscription ? 'subscription' : 'polling',
+        },
+      });
+      this.subscription?.subscribe(this.getLogSubscriptionFilter());
+      while (1) {
+        try {
+          await this.processBlock();
+          this.lastSuccessfulLoopTime = Date.now();
+        } catch (err) {
+          this.logger.error('Encountered error at coordinator loop', { args: { err } });
+          sendTG(`Distributor Error.${(err as Error).message}`);
+        }
+        this.lastLoopTime = Date.now();
+        await this.waitForNextBlock();
+      }
+    } catch (err) {
+      this.logger.error(err);
+      this.logger.error('Failed on listen or block consumption', {
+        args: { waitTime: this.LISTEN_ERROR_WAIT_TIME },
+      });
+      this.metrics.count(Metric.KEEPER_ERROR);
+      sendTG(`Failed on listen or block consumption. ${(err as Error).message}`);
+      // Wait a minute and retry (may just be Node issues).
+      await delay(this.LISTEN_ERROR_WAIT_TIME);
+      await this.listen();
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { Contract, Signer } from 'ethers';
+import { keyBy } from 'lodash';
+import { Logger } from 'winston';
+import { Coordinator } from './coordinator';
+import { Distributor } from './distributor';
+import { createLogger } from './logging';
+import { Metric, Metrics } from './metrics';
+import {
+  createMarketContract,
+  getMarketSummaries,
+  getPriceFeedId,
+  MarketSummary,
+  delay,
+  sendTG,
+} from './utils';
+
+export type DistributorFactory = (
+  marketKey: string,
+  market: Contract,
+  baseAsset: string,
+  priceFeedId: string
+) => Distributor;
+
+/*
+ * Periodically compares markets in the FuturesMarketManager against those being kept, starting keepers
+ * for newly added (proxied) markets and retiring keepers of markets that have been removed. A market is
+ * only retired once missing from several consecutive discoveries, so a lagging node can't retire it.
+ */
+export class MarketDiscovery {
+  private readonly logger: Logger;
+
+  // Number of consecutive discoveries each running market has been missing from.
+  private missingCounts: Record<string, number> = {};
+
+  // Number of consecutive discoveries a market must be missing from before it's retired.
+  private readonly REMOVAL_CONFIRMATIONS = 3;
+
+  constructor(
+    private readonly marketManager: Contract,
+    private readonly perpsV2ExchangeRates: Contract,
+    private readonly signer: Signer,
+    private readonly coordinator: Coordinator,
+    private readonly createDistributor: DistributorFactory,
+    private readonly isMarketKept: (marketKey: string) => boolean,
+    private readonly metrics: Metrics,
+    private readonly discoveryInterval: number
+  ) {
+    this.logger = createLogger('MarketDiscovery');
+  }
+
+  private async addMarket({ marketKey, market, asset }: MarketSummary): Promise<void> {
+    const priceFeedId = await getPriceFeedId(this.perpsV2ExchangeRates, asset);
+    this.logger.info(`Found new market: '${marketKey}' @ '${market}'`, { args: { priceFeedId } });
+
+    const distributor = this.createDistributor(
+      marketKey,
+      createMarketContract(market, this.signer),
+      asset,
+      priceFeedId
+    );
+    this.coordinator.addDistributor(distributor);
+
+    this.metrics.count(Metric.MARKET_ADDED, { MarketKey: marketKey });
+    sendTG(`Market added, keeping ${marketKey} @ ${market}`);
+  }
+
+  private async removeMarket(distributor: Distributor): Promise<void> {
+    const { marketKey, market } = distributor;
+    this.logger.warn(`Market removed, retiring keepers: '${marketKey}' @ '${market.address}'`);
+
+    await this.coordinator.removeDistributor(distributor);
+
+    this.metrics.count(Metric.MARKET_REMOVED, { MarketKey: marketKey });
+    sendTG(`Market removed, no longer keeping ${marketKey} @ ${market.address}`);
+  }
+
+  /* Compare current market summaries against the running set and reconcile any differences. */
+  async discover(): Promise<void> {
+    const allSummaries = await getMarketSummaries(this.marketManager);
+    // No markets at all is more likely a node returning an incomplete result than every market removed.
+    if (!allSummaries.length) {
+      this.logger.warn('No markets returned by the market manager, skipping discovery');
+      return;
+    }
+
+    const summaries = allSummaries.filter(
+      ({ proxied, marketKey }) => proxied && this.isMarketKept(marketKey)
+    );
+    const current = keyBy(summaries, ({ marketKey }) => marketKey);
+    const running = keyBy(this.coordinator.getDistributors(), ({ marketKey }) => marketKey);
+
+    // A market key pointing to a different address is treated as a removal followed by an addition.
+    const isSameMarket = (marketKey: string) =>
+      !!current[marketKey] &&
+      !!running[marketKey] &&
+      current[marketKey].market.toLowerCase() === running[marketKey].market.address.toLowerCase();
+
+    const missing = Object.values(running).filter(({ marketKey }) => !isSameMarket(marketKey));
+    this.missingCounts = Object.fromEntries(
+      missing.map(({ marketKey }) => [marketKey, (this.missingCounts[marketKey] ?? 0) + 1])
+    );
+    const removed = missing.filter(
+      ({ marketKey }) => this.missingCounts[marketKey] >= this.REMOVAL_CONFIRMATIONS
+    );
+    removed.forEach(({ marketKey }) => delete this.missingCounts[marketKey]);
+
+    // Markets whose key is still running (e.g. pointing to a new address) wait on its removal.
+    const added = summaries.filter(
+      ({ marketKey }) => !running[marketKey] || removed.includes(running[marketKey])
+    );
+
+    this.logger.info('Discovered markets', {
+      args: {
+        current: summaries.length,
+        added: added.length,
+        missing: missing.length,
+        removed: removed.length,
+      },
+    });
+    for (const distributor of removed) {
+      await this.removeMarket(distributor);
+    }
+    for (const summary of added) {
+      await this.addMarket(summary);
+    }
+  }
+
+  /* Periodically discover markets. Failures are logged and retried on the next interval. */
+  async listen(): Promise<void> {
+    while (1) {
+      await delay(this.discoveryInterval);
+      try {
+        await this.discover();
+      } catch (err) {
+        this.logger.error('Failed to discover markets', { args: { err } });
+        sendTG(`Market discovery failing. ${(err as Error).message}`);
+      }
+    }
+  }
+}
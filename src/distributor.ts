@@ -1,172 +1,423 @@
-import { Contract, providers, Event, utils } from 'ethers';
+import { BigNumber, Contract, providers, Event, utils } from 'ethers';
 import { Logger } from 'winston';
-import { getEvents } from './keepers/helpers';
 import { Keeper } from './keepers';
 import { createLogger } from './logging';
 import { PerpsEvent } from './typed';
+import { findLastIndex, last, sum, uniq } from 'lodash';
+import { sendTG } from './utils';
+import { SnapshotStore } from './snapshot';
+import { Multicall } from './multicall';
 import { Metric, Metrics } from './metrics';
-import { uniq } from 'lodash';
-import { delay, sendTG } from './utils';
+import { combineHealthChecks, HealthCheck } from './health';
 
+// A processed block and the keeper indexes as they were immediately after processing it.
+interface ProcessedBlock {
+  number: number;
+  hash?: string;
+  indexes: unknown[];
+}
+
+// Fetches this market's events between two blocks (inclusive).
+export type EventFetcher = (fromBlock: number, toBlock: number) => Promise<Event[]>;
+
+/*
+ * Owns the keepers of a single market. Blocks and events are pushed by the `Coordinator` and all
+ * work is serialized through a queue so keeper indexes are never updated mid execution.
+ */
 export class Distributor {
   private readonly logger: Logger;
   private readonly keepers: Keeper[] = [];
-  private lastProcessedBlock?: number;
 
-  private readonly LISTEN_ERROR_WAIT_TIME = 15 * 1000; // 15s
-  protected readonly START_TIME = Date.now();
+  // When a snapshot was last written, and the tail of snapshot writes (serialized as they share a file).
+  private lastSnapshotTime = 0;
+  private snapshotWrites: Promise<void> = Promise.resolve();
+
+  // Number of the last block whose events have been applied to keeper indexes, and its hash (unknown
+  // mid rebuild) used to check a restored snapshot is still on the canonical chain.
+  private _lastProcessedBlock?: number;
+  private lastProcessedBlockHash?: string;
+
+  // Ring of recently processed blocks (oldest first) used to roll back reorgs.
+  private recentBlocks: ProcessedBlock[] = [];
+
+  // Keeper indexes before any events were applied, used to rebuild when a reorg exceeds the ring.
+  private readonly initialIndexes: unknown[] = [];
 
-  private readonly MAX_BLOCK_RANGE = 1_000_000;
+  // Tail of the serial task queue and whether an execution is already queued (to coalesce them).
+  private tasks: Promise<void> = Promise.resolve();
+  private isExecutionQueued = false;
+
+  // Accounts with events since the last reconciliation, checked along with those already indexed.
+  private recentAccounts = new Set<string>();
+
+  // Set once the market has been retired, no further work is accepted.
+  private isStopped = false;
+
+  // Maximum number of processed blocks to track for reorg rollbacks.
+  private readonly MAX_REORG_DEPTH = 32;
 
   constructor(
-    private readonly market: Contract,
+    readonly market: Contract,
+    readonly marketKey: string,
     protected readonly baseAsset: string,
-    private readonly provider: providers.BaseProvider,
-    private readonly metrics: Metrics,
-    private readonly fromBlock: number,
-    private readonly distributorProcessInterval: number
+    private readonly snapshotStore: SnapshotStore,
+    private readonly snapshotInterval: number,
+    private readonly multicall: Multicall,
+    private readonly metrics: Metrics
   ) {
     this.logger = createLogger(`Distributor [${baseAsset}] Distributor`);
   }
 
+  get lastProcessedBlock(): number | undefined {
+    return this._lastProcessedBlock;
+  }
+
   /* Given an array of keepers, track and include in bulk executions. */
   registerKeepers(keepers: Keeper[]) {
-    keepers.forEach(keeper => this.keepers.push(keeper));
+    keepers.forEach(keeper => {
+      this.keepers.push(keeper);
+      this.initialIndexes.push(keeper.serializeIndex());
+    });
     this.logger.info('Registered keepers', { args: { n: this.keepers.length } });
   }
 
-  private getEventsOfInterest(): PerpsEvent[] {
+  /* Runs a keeper's `updateIndex` or `execute`, recording the time it took as `metric`. */
+  private async timeKeeper(keeper: Keeper, metric: Metric, cb: () => Promise<void>): Promise<void> {
+    const startTime = Date.now();
+    try {
+      await cb();
+    } finally {
+      this.metrics.time(metric, Date.now() - startTime, {
+        KeeperName: keeper.name,
+        MarketKey: this.marketKey,
+      });
+    }
+  }
+
+  getEventsOfInterest(): PerpsEvent[] {
     return uniq(this.keepers.flatMap(k => k.EVENTS_OF_INTEREST));
   }
 
-  /* Perform RPC calls to fetch past event data once then pass to keepers for indexing. */
-  private async indexKeepers(): Promise<number> {
-    const latestBlock = await this.provider.getBlockNumber();
-    let fromBlock = this.fromBlock;
+  /* Runs `task` after all previously scheduled tasks complete. Errors are logged, never rethrown. */
+  private schedule<T>(task: () => Promise<T>): Promise<T | undefined> {
+    const result = this.tasks.then(task).catch(err => {
+      this.logger.error('Encountered error at distributor task', { args: { err } });
+      this.logger.error((err as Error).stack);
+      sendTG(`Distributor Error.${(err as Error).message}`);
+      return undefined;
+    });
+    this.tasks = result.then(() => undefined);
+    return result;
+  }
 
-    while (fromBlock <= latestBlock) {
-      const toBlock = Math.min(fromBlock + this.MAX_BLOCK_RANGE, latestBlock);
-      const events = await getEvents(this.getEventsOfInterest(), this.market, {
-        fromBlock,
-        toBlock,
-        logger: this.logger,
-      });
+  /* Keep only events for this market's keepers that have not yet been applied. */
+  private getUnprocessedEvents(events: Event[]): Event[] {
+    const eventsOfInterest = this.getEventsOfInterest();
+    return events.filter(
+      ({ event, blockNumber }) =>
+        eventsOfInterest.includes(event as PerpsEvent) &&
+        (this._lastProcessedBlock === undefined || blockNumber > this._lastProcessedBlock)
+    );
+  }
 
-      this.logger.info('Rebuilding index...', {
-        args: {
-          fromBlock,
-          toBlock,
-          events: events.length,
-          segments: (latestBlock - this.fromBlock) / this.MAX_BLOCK_RANGE,
-        },
-      });
-      await Promise.all(this.keepers.map(keeper => keeper.updateIndex(events)));
+  /* Track `block` as processed, copying the keeper indexes only if they may have changed. */
+  private recordProcessedBlock(
+    blockNumber: number,
+    blockHash: string | undefined,
+    isIndexUpdated: boolean
+  ): void {
+    const previous = last(this.recentBlocks);
+    const indexes =
+      isIndexUpdated || !previous
+        ? this.keepers.map(keeper => keeper.serializeIndex())
+        : previous.indexes;
 
-      fromBlock = toBlock + 1;
+    this._lastProcessedBlock = blockNumber;
+    this.lastProcessedBlockHash = blockHash;
+    this.recentBlocks.push({ number: blockNumber, hash: blockHash, indexes });
+    if (this.recentBlocks.length > this.MAX_REORG_DEPTH) {
+      this.recentBlocks.shift();
     }
+  }
 
-    return latestBlock;
+  /* Applies historical events (up to and including `toBlock`) to keeper indexes. Used when rebuilding. */
+  async index(events: Event[], toBlock: number): Promise<void> {
+    await this.schedule(async () => {
+      const unprocessedEvents = this.getUnprocessedEvents(events);
+      await Promise.all(
+        this.keepers.map(keeper =>
+          this.timeKeeper(keeper, Metric.KEEPER_UPDATE_INDEX_TIME, () =>
+            keeper.updateIndex(unprocessedEvents)
+          )
+        )
+      );
+
+      // Segments may be older than a restored snapshot, never move backwards.
+      if (this._lastProcessedBlock === undefined || toBlock > this._lastProcessedBlock) {
+        this._lastProcessedBlock = toBlock;
+        this.lastProcessedBlockHash = undefined;
+      }
+    });
   }
 
-  private async updateKeeperIndexes(
+  /*
+   * Marks the end of a rebuild at `blockNumber`, the first point a reorg can be rolled back to. Without
+   * `blockHash`, the hash already known for `blockNumber` (if any) is kept.
+   */
+  async completeIndex(blockNumber: number, blockHash?: string): Promise<void> {
+    await this.schedule(async () => {
+      const hash =
+        blockHash ??
+        (blockNumber === this._lastProcessedBlock ? this.lastProcessedBlockHash : undefined);
+      this.recentBlocks = [];
+      this.recordProcessedBlock(blockNumber, hash, true);
+      await this.writeSnapshot();
+    });
+  }
+
+  /*
+   * Queues events produced from `fromBlock` up to `block` to be applied to keeper indexes. Blocks before
+   * `fromBlock` yet to be applied (i.e. a previous block failed) are fetched again with `fetchEvents`.
+   */
+  disburse(
     events: Event[],
+    fromBlock: number,
     block: providers.Block,
-    assetPrice: number
-  ): Promise<void[]> {
-    return Promise.all(this.keepers.map(keeper => keeper.updateIndex(events, block, assetPrice)));
-  }
+    fetchEvents: EventFetcher
+  ): void {
+    if (this.isStopped) {
+      return;
+    }
+
+    this.schedule(async () => {
+      if (this._lastProcessedBlock !== undefined && block.number <= this._lastProcessedBlock) {
+        return;
+      }
+
+      let missedEvents: Event[] = [];
+      if (this._lastProcessedBlock !== undefined && this._lastProcessedBlock + 1 < fromBlock) {
+        this.logger.warn('Fetching events of blocks that failed to apply', {
+          args: { fromBlock: this._lastProcessedBlock + 1, toBlock: fromBlock - 1 },
+        });
+        missedEvents = await fetchEvents(this._lastProcessedBlock + 1, fromBlock - 1);
+      }
+
+      const unprocessedEvents = this.getUnprocessedEvents([...missedEvents, ...events]);
+      unprocessedEvents
+        .filter(({ args }) => args?.account)
+        .forEach(({ args }) => this.recentAccounts.add(args!.account));
+
+      let assetPrice: number | undefined;
+      try {
+        // Batched with the asset price lookups of other markets processing the same block.
+        const { price } = await this.multicall.call<{ price: BigNumber }>(
+          this.market,
+          'assetPrice'
+        );
+        assetPrice = parseFloat(utils.formatUnits(price));
+      } catch (err) {
+        // Keepers fall back to the last known price, do not drop the events over it.
+        this.logger.warn('Failed to fetch asset price', { args: { err } });
+      }
+
+      this.logger.info('Distributing to keepers', {
+        args: {
+          keepers: this.keepers.length,
+          toBlock: block.number,
+          events: unprocessedEvents.length,
+          assetPrice,
+        },
+      });
+
+      await Promise.all(
+        this.keepers.map(keeper =>
+          this.timeKeeper(keeper, Metric.KEEPER_UPDATE_INDEX_TIME, () =>
+            keeper.updateIndex(unprocessedEvents, block, assetPrice)
+          )
+        )
+      );
+      this.recordProcessedBlock(block.number, block.hash, unprocessedEvents.length > 0);
 
-  private async executeKeepers(): Promise<void[]> {
-    return Promise.all(this.keepers.map(keeper => keeper.execute()));
+      if (Date.now() - this.lastSnapshotTime >= this.snapshotInterval) {
+        await this.writeSnapshot();
+      }
+    });
   }
 
-  private async disburseToKeepers(toBlock: providers.Block): Promise<void> {
-    const fromBlock = this.lastProcessedBlock ? this.lastProcessedBlock + 1 : toBlock.number;
-    const blockDelta = toBlock.number - fromBlock;
-    this.metrics.gauge(Metric.DISTRIBUTOR_BLOCK_DELTA, blockDelta);
+  /* Queues a keeper execution, unless one is already waiting in the queue. */
+  execute(): void {
+    if (this.isExecutionQueued || this.isStopped) {
+      return;
+    }
 
-    const events = await getEvents(this.getEventsOfInterest(), this.market, {
-      fromBlock,
-      toBlock: toBlock.number,
-      logger: this.logger,
+    this.isExecutionQueued = true;
+    this.schedule(async () => {
+      this.isExecutionQueued = false;
+      await Promise.all(
+        this.keepers.map(keeper =>
+          this.timeKeeper(keeper, Metric.KEEPER_EXECUTE_TIME, () => keeper.execute())
+        )
+      );
     });
-    const assetPrice = parseFloat(utils.formatUnits((await this.market.assetPrice()).price));
-
-    this.logger.info('Distributing to keepers', {
-      args: {
-        keepers: this.keepers.length,
-        fromBlock,
-        toBlock: toBlock.number,
-        blockDelta,
-        events: events.length,
-        assetPrice,
-      },
+  }
+
+  /*
+   * Queues a check of keeper indexes against on-chain state, correcting any drift (e.g. from missed
+   * events). Returns the number of corrections, or `undefined` if it failed.
+   */
+  async reconcile(): Promise<number | undefined> {
+    if (this.isStopped) {
+      return undefined;
+    }
+
+    return this.schedule(async () => {
+      const accounts = Array.from(this.recentAccounts);
+      this.recentAccounts.clear();
+
+      const corrections = sum(
+        await Promise.all(this.keepers.map(keeper => keeper.reconcile(accounts)))
+      );
+      const latest = last(this.recentBlocks);
+      if (corrections && latest) {
+        // Rolling back to the latest block must not undo the corrections.
+        latest.indexes = this.keepers.map(keeper => keeper.serializeIndex());
+      }
+      this.logger.info('Reconciled keeper indexes', {
+        args: { accounts: accounts.length, corrections },
+      });
+      return corrections;
     });
+  }
+
+  /* Rolls keeper indexes back to `forkBlock`. Returns `false` if it's not in the tracked history. */
+  async rollback(forkBlock: number): Promise<boolean> {
+    const isRolledBack = await this.schedule(async () => {
+      // Only an exact match is safe, rolling back further would skip events the coordinator won't replay.
+      const index = findLastIndex(this.recentBlocks, ({ number }) => number === forkBlock);
+      if (index === -1) {
+        return false;
+      }
 
-    await this.updateKeeperIndexes(events, toBlock, assetPrice);
+      const processedBlock = this.recentBlocks[index];
+      this.logger.warn('Rolling back keeper indexes', {
+        args: { forkBlock, rollbackBlock: processedBlock.number },
+      });
+      this.keepers.forEach((keeper, i) => keeper.restoreIndex(processedBlock.indexes[i]));
+      this.recentBlocks = this.recentBlocks.slice(0, index + 1);
+      this._lastProcessedBlock = processedBlock.number;
+      this.lastProcessedBlockHash = processedBlock.hash;
+      return true;
+    });
+    return !!isRolledBack;
   }
 
-  // TODO: Each keeper should have a .healthcheck call which in-essence does the same thing.
-  //
-  // The metric namespace can be further chunked by keeper type e.g. PerpsV2MainnetOvm/Liquidations/KeeperUpTime
-  async healthcheck(): Promise<void> {
-    try {
-      const uptime = Date.now() - this.START_TIME;
-      this.logger.info('Performing keeper healthcheck', { args: { uptime } });
+  /* Stops accepting work and waits for any in-flight work to complete (e.g. the market was retired). */
+  async stop(): Promise<void> {
+    this.isStopped = true;
+    await this.tasks;
+    this.logger.info('Stopped distributor', { args: { marketKey: this.marketKey } });
+  }
 
-      // A failure to submit metric should not cause application to halt. Instead, alerts will pick this up if it happens
-      // for a long enough duration. Essentially, do _not_ force keeper to slowdown operation just to track metrics
-      // for offline usage/monitoring.
-      this.metrics.time(Metric.KEEPER_UPTIME, uptime);
-    } catch (err) {
-      // NOTE: We do _not_ rethrow because healthchecks aren't `await` wrapped.
-      this.logger.error('Distributor healthcheck failed', err);
-    }
+  /* Discards all keeper indexes, requiring a full rebuild. */
+  async reset(): Promise<void> {
+    await this.schedule(async () => {
+      this.keepers.forEach((keeper, i) => keeper.restoreIndex(this.initialIndexes[i]));
+      this.recentBlocks = [];
+      this._lastProcessedBlock = undefined;
+      this.lastProcessedBlockHash = undefined;
+    });
   }
 
-  /* Listen on new blocks produced then subsequently bulk op. */
-  async listen(): Promise<void> {
-    try {
-      this.lastProcessedBlock = await this.indexKeepers();
-      await this.executeKeepers();
+  /* Restores keeper indexes from the latest snapshot, returning the last block it had processed. */
+  async restoreSnapshot(): Promise<number | undefined> {
+    const snapshot = await this.snapshotStore.load(this.marketKey, this.market.address);
+    if (!snapshot) {
+      return undefined;
+    }
 
-      this.logger.info('Begin processing blocks 🚀...', {
-        args: { lastProcessedBlock: this.lastProcessedBlock },
+    // A reorg while the keeper was down leaves the snapshot on a fork, its index cannot be trusted.
+    const { lastProcessedBlock, lastProcessedBlockHash } = snapshot;
+    const block = await this.market.provider.getBlock(lastProcessedBlock);
+    if (block?.hash !== lastProcessedBlockHash) {
+      this.logger.warn('Snapshot block is no longer canonical, rebuilding index', {
+        args: { lastProcessedBlock, expected: lastProcessedBlockHash, found: block?.hash },
       });
-      while (1) {
-        try {
-          const startTime = Date.now();
-          const toBlock = await this.provider.getBlock('latest');
-
-          if (toBlock.number > this.lastProcessedBlock) {
-            await this.disburseToKeepers(toBlock);
-            this.lastProcessedBlock = toBlock.number;
-          } else {
-            this.logger.info('Latest block time is the same as previously processed', {
-              args: { blockNumber: toBlock.number },
-            });
-          }
-          this.healthcheck();
-
-          await this.executeKeepers();
-
-          this.metrics.time(Metric.DISTRIBUTOR_BLOCK_PROCESS_TIME, Date.now() - startTime);
-        } catch (err) {
-          this.logger.error('Encountered error at distributor loop', { args: { err } });
-          sendTG(`Distributor Error.${(err as Error).message}`);
+      return undefined;
+    }
+
+    // Keep a copy of the current indexes so a partially applied snapshot can be undone.
+    const pristine = this.keepers.map(keeper => keeper.serializeIndex());
+    try {
+      this.keepers.forEach(keeper => {
+        if (!(keeper.name in snapshot.keepers)) {
+          throw new Error(`Snapshot does not contain an index for '${keeper.name}'`);
         }
-        await delay(this.distributorProcessInterval);
-      }
-    } catch (err) {
-      this.logger.error(err);
-      this.logger.error('Failed on listen or block consumption', {
-        args: { waitTime: this.LISTEN_ERROR_WAIT_TIME },
+        keeper.restoreIndex(snapshot.keepers[keeper.name]);
       });
-      this.metrics.count(Metric.KEEPER_ERROR);
-      sendTG(`Failed on listen or block consumption. ${(err as Error).message}`);
-      // Wait a minute and retry (may just be Node issues).
-      await delay(this.LISTEN_ERROR_WAIT_TIME);
-      await this.listen();
+    } catch (err) {
+      this.logger.warn('Failed to restore snapshot, rebuilding index', { args: { err } });
+      this.keepers.forEach((keeper, i) => keeper.restoreIndex(pristine[i]));
+      return undefined;
     }
+
+    this.logger.info('Restored keeper indexes from snapshot', {
+      args: { lastProcessedBlock, createdAt: snapshot.createdAt },
+    });
+    this._lastProcessedBlock = lastProcessedBlock;
+    this.lastProcessedBlockHash = lastProcessedBlockHash;
+    return lastProcessedBlock;
+  }
+
+  /*
+   * Whether the market's keepers are live and ready, and its index is built and no more than `maxBlockLag`
+   * blocks behind `latestBlock` (the latest block seen by the coordinator).
+   */
+  healthcheck(latestBlock: number | undefined, maxBlockLag: number): HealthCheck {
+    const readiness: string[] = [];
+    if (this._lastProcessedBlock === undefined) {
+      readiness.push('index is not built');
+    } else if (latestBlock !== undefined && latestBlock - this._lastProcessedBlock > maxBlockLag) {
+      readiness.push(`index is ${latestBlock - this._lastProcessedBlock} blocks behind`);
+    }
+    return combineHealthChecks(
+      [{ liveness: [], readiness }, ...this.keepers.map(keeper => keeper.healthcheck())],
+      `[${this.marketKey}]`
+    );
+  }
+
+  /*
+   * Persists a snapshot right away (e.g. on shutdown) rather than waiting on in-flight work, which may be
+   * an execution waiting minutes for its transactions to be mined.
+   */
+  async saveSnapshot(): Promise<void> {
+    await this.writeSnapshot();
+  }
+
+  /*
+   * Persists the keeper indexes of the last processed block, as copied when it was applied so an index
+   * is never saved mid update. No-op until the index is built (and the block's hash is known).
+   */
+  private writeSnapshot(): Promise<void> {
+    const processedBlock = last(this.recentBlocks);
+    if (!processedBlock?.hash) {
+      return this.snapshotWrites;
+    }
+
+    const { number, hash, indexes } = processedBlock;
+    this.lastSnapshotTime = Date.now();
+    this.snapshotWrites = this.snapshotWrites.then(async () => {
+      try {
+        await this.snapshotStore.save(this.marketKey, {
+          market: this.market.address,
+          lastProcessedBlock: number,
+          lastProcessedBlockHash: hash,
+          keepers: Object.fromEntries(this.keepers.map((keeper, i) => [keeper.name, indexes[i]])),
+        });
+      } catch (err) {
+        // A failed snapshot only costs startup time on the next restart, keep processing blocks.
+        this.logger.error('Failed to save snapshot', { args: { err } });
+      }
+    });
+    return this.snapshotWrites;
   }
 }
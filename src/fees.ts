@@ -0,0 +1,179 @@
+import { BigNumber, providers, utils } from 'ethers';
+import { Logger } from 'winston';
+import { FeeConfig } from './config';
+import { createLogger } from './logging';
+import { FeeStrategyType } from './typed';
+
+export interface Fees {
+  maxFeePerGas: BigNumber;
+  maxPriorityFeePerGas: BigNumber;
+}
+
+export interface FeeStrategy {
+  getFees(): Promise<Fees>;
+}
+
+const parseGwei = (value: number): BigNumber => utils.parseUnits(value.toFixed(9), 'gwei');
+
+const minBigNumber = (a: BigNumber, b: BigNumber): BigNumber => (a.lt(b) ? a : b);
+const maxBigNumber = (a: BigNumber, b: BigNumber): BigNumber => (a.gt(b) ? a : b);
+
+/* Bumps both fees by `percent`, e.g. to replace a pending transaction. */
+export const bumpFees = ({ maxFeePerGas, maxPriorityFeePerGas }: Fees, percent: number): Fees => ({
+  maxFeePerGas: maxFeePerGas.mul(100 + percent).div(100),
+  maxPriorityFeePerGas: maxPriorityFeePerGas.mul(100 + percent).div(100),
+});
+
+/* The higher of each fee in `a` and `b`. */
+export const maxFees = (a: Fees, b: Fees): Fees => ({
+  maxFeePerGas: maxBigNumber(a.maxFeePerGas, b.maxFeePerGas),
+  maxPriorityFeePerGas: maxBigNumber(a.maxPriorityFeePerGas, b.maxPriorityFeePerGas),
+});
+
+export class FixedFeeStrategy implements FeeStrategy {
+  constructor(private readonly fees: Fees) {}
+
+  async getFees(): Promise<Fees> {
+    return this.fees;
+  }
+}
+
+export class ProviderFeeStrategy implements FeeStrategy {
+  constructor(private readonly provider: providers.BaseProvider) {}
+
+  async getFees(): Promise<Fees> {
+    const { maxFeePerGas, maxPriorityFeePerGas } = await this.provider.getFeeData();
+    if (!maxFeePerGas || !maxPriorityFeePerGas) {
+      throw new Error('Provider does not support EIP-1559 fees');
+    }
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+}
+
+// A provider which can send raw JSON-RPC requests, e.g. `eth_feeHistory` which ethers has no method for.
+type FeeHistoryProvider = providers.BaseProvider & Pick<providers.JsonRpcProvider, 'send'>;
+
+interface FeeHistory {
+  baseFeePerGas: string[];
+  reward?: string[][];
+}
+
+/*
+ * Prices transactions at the median over the last `blocks` blocks of a percentile of the priority fees
+ * paid in each block (from `eth_feeHistory`), with a max fee allowing the next base fee to double. Falls
+ * back to provider suggested fees when the fee history is unavailable.
+ */
+export class PercentileFeeStrategy implements FeeStrategy {
+  private readonly logger: Logger;
+  private readonly fallback: ProviderFeeStrategy;
+
+  // Fees computed (or being computed) for callers within the same block, and when they expire.
+  private fees?: Promise<Fees>;
+  private feesExpireAt = 0;
+
+  private readonly CACHE_TTL = 2 * 1000; // 2s, the block time.
+
+  constructor(
+    private readonly provider: FeeHistoryProvider,
+    private readonly blocks: number,
+    private readonly percentile: number
+  ) {
+    this.logger = createLogger('PercentileFeeStrategy');
+    this.fallback = new ProviderFeeStrategy(provider);
+  }
+
+  private async computeFees(): Promise<Fees> {
+    try {
+      const { baseFeePerGas, reward }: FeeHistory = await this.provider.send('eth_feeHistory', [
+        utils.hexValue(this.blocks),
+        'latest',
+        [this.percentile],
+      ]);
+      // Each block's percentile, blocks without (fee paying) transactions report 0.
+      const fees = (reward ?? [])
+        .map(([fee]) => BigNumber.from(fee))
+        .filter(fee => fee.gt(0))
+        .sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+      // Includes the base fee of the next block.
+      const nextBaseFee = baseFeePerGas.length
+        ? BigNumber.from(baseFeePerGas[baseFeePerGas.length - 1])
+        : undefined;
+
+      if (!fees.length || !nextBaseFee) {
+        return this.fallback.getFees();
+      }
+
+      // The median block, so a few blocks of outliers don't set the fee.
+      const maxPriorityFeePerGas = fees[Math.floor(fees.length / 2)];
+      return { maxFeePerGas: nextBaseFee.mul(2).add(maxPriorityFeePerGas), maxPriorityFeePerGas };
+    } catch (err) {
+      this.logger.warn('Failed to compute percentile fees, using provider fees', { args: { err } });
+      return this.fallback.getFees();
+    }
+  }
+
+  async getFees(): Promise<Fees> {
+    if (!this.fees || Date.now() >= this.feesExpireAt) {
+      this.fees = this.computeFees();
+      this.feesExpireAt = Date.now() + this.CACHE_TTL;
+      // Callers after a failure try again rather than share it.
+      this.fees.catch(() => {
+        this.fees = undefined;
+      });
+    }
+    return this.fees;
+  }
+}
+
+/* Limits both fees to `cap`, if any. */
+export const capFees = (
+  { maxFeePerGas, maxPriorityFeePerGas }: Fees,
+  cap: BigNumber | undefined
+): Fees =>
+  cap
+    ? {
+        maxFeePerGas: minBigNumber(maxFeePerGas, cap),
+        maxPriorityFeePerGas: minBigNumber(maxPriorityFeePerGas, cap),
+      }
+    : { maxFeePerGas, maxPriorityFeePerGas };
+
+/* Caps the max fee (and priority fee) of another strategy. */
+export class CappedFeeStrategy implements FeeStrategy {
+  constructor(private readonly strategy: FeeStrategy, private readonly maxFeePerGas: BigNumber) {}
+
+  async getFees(): Promise<Fees> {
+    const fees = await this.strategy.getFees();
+    return capFees(fees, this.maxFeePerGas);
+  }
+}
+
+/* Parses the configured max fee cap (gwei) if any. */
+export const getMaxFeeCap = ({ maxFeeCap }: FeeConfig): BigNumber | undefined =>
+  maxFeeCap === undefined ? undefined : parseGwei(maxFeeCap);
+
+export const createFeeStrategy = (config: FeeConfig, provider: FeeHistoryProvider): FeeStrategy => {
+  let strategy: FeeStrategy;
+  switch (config.strategy) {
+    case FeeStrategyType.FIXED:
+      strategy = new FixedFeeStrategy({
+        maxFeePerGas: parseGwei(config.maxFee),
+        maxPriorityFeePerGas: parseGwei(config.priorityFee),
+      });
+      break;
+    case FeeStrategyType.PERCENTILE:
+      strategy = new PercentileFeeStrategy(
+        provider,
+        config.feeHistoryBlocks,
+        config.feeHistoryPercentile
+      );
+      break;
+    case FeeStrategyType.PROVIDER:
+      strategy = new ProviderFeeStrategy(provider);
+      break;
+    default:
+      throw new Error(`Unsupported fee strategy '${config.strategy}'`);
+  }
+
+  const cap = getMaxFeeCap(config);
+  return cap ? new CappedFeeStrategy(strategy, cap) : strategy;
+};
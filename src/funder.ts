@@ -0,0 +1,85 @@
+import { TransactionResponse } from '@ethersproject/providers';
+import { BigNumber, utils } from 'ethers';
+import { Logger } from 'winston';
+import { SignerBalanceConfig } from './config';
+import { createLogger } from './logging';
+import { Metric, Metrics } from './metrics';
+import { NonceManager } from './nonce';
+import { sendTG } from './utils';
+import { TxWatchdog } from './watchdog';
+
+/*
+ * Tops up signers from a designated funding account, sending at most `maxDailyTopUp` ETH per (UTC) day.
+ * Spend is tracked in memory, a restart resets the day's allowance. Signer pools share the funder so
+ * top-ups are sent one at a time.
+ */
+export class SignerFunder {
+  private readonly logger: Logger;
+
+  private spend = { day: '', amount: BigNumber.from(0), isCapAlerted: false };
+
+  // Tail of the queue top-ups are serialized through.
+  private topUps: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly funder: NonceManager,
+    private readonly watchdog: TxWatchdog,
+    private readonly metrics: Metrics,
+    private readonly config: SignerBalanceConfig
+  ) {
+    this.logger = createLogger('SignerFunder');
+  }
+
+  /* Tops `address` up to `topUpTarget`, returning the amount sent (zero when the daily cap is spent). */
+  topUp(address: string, balance: BigNumber): Promise<BigNumber> {
+    const result = this.topUps.then(() => this.sendTopUp(address, balance));
+    this.topUps = result.catch(() => undefined);
+    return result;
+  }
+
+  private async sendTopUp(address: string, balance: BigNumber): Promise<BigNumber> {
+    const day = new Date().toISOString().slice(0, 10);
+    if (this.spend.day !== day) {
+      this.spend = { day, amount: BigNumber.from(0), isCapAlerted: false };
+    }
+
+    const remaining = utils.parseEther(String(this.config.maxDailyTopUp)).sub(this.spend.amount);
+    const needed = utils.parseEther(String(this.config.topUpTarget)).sub(balance);
+    const amount = needed.lt(remaining) ? needed : remaining;
+    if (amount.lte(0)) {
+      this.logger.warn('Daily top-up cap spent, not topping up signer', {
+        args: { address, maxDailyTopUp: this.config.maxDailyTopUp },
+      });
+      if (!this.spend.isCapAlerted) {
+        sendTG(`Signer top-up daily cap (${this.config.maxDailyTopUp} ETH) spent`);
+        this.spend.isCapAlerted = true;
+      }
+      return BigNumber.from(0);
+    }
+
+    this.logger.info('Topping up signer...', {
+      args: { address, balance: utils.formatEther(balance), amount: utils.formatEther(amount) },
+    });
+    // Reserved until known not to be sent, a top-up that fails to be mined may still be included later.
+    this.spend.amount = this.spend.amount.add(amount);
+    let tx: TransactionResponse;
+    try {
+      tx = await this.funder.sendTransaction({ to: address, value: amount });
+    } catch (err) {
+      if (this.spend.day === day) {
+        this.spend.amount = this.spend.amount.sub(amount);
+      }
+      throw err;
+    }
+
+    try {
+      await this.watchdog.wait(tx, this.funder.signer);
+    } finally {
+      // Replacements bypass the nonce manager, and a cancelled top-up may leave a gap.
+      await this.funder.sync();
+    }
+    this.metrics.count(Metric.SIGNER_TOPPED_UP, { Signer: address });
+    this.logger.info('Topped up signer', { args: { address, tx: tx.hash } });
+    return amount;
+  }
+}
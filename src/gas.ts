@@ -0,0 +1,87 @@
+import { BigNumber, Contract, PopulatedTransaction, providers, utils } from 'ethers';
+import { Logger } from 'winston';
+import { createLogger } from './logging';
+import { Multicall } from './multicall';
+
+// Optimism predeploy used to compute the L1 data fee of a transaction.
+//
+// @see: https://docs.optimism.io/stack/smart-contracts#gaspriceoracle
+export const GAS_PRICE_ORACLE_ADDRESS = '0x420000000000000000000000000000000000000F';
+
+const GAS_PRICE_ORACLE_ABI = ['function getL1Fee(bytes _data) view returns (uint256)'];
+
+export interface TransactionCost {
+  gasLimit: BigNumber;
+  gasPrice: BigNumber;
+  l2Fee: BigNumber; // gasLimit * gasPrice (in wei)
+  l1Fee: BigNumber; // L1 data fee (in wei)
+  total: BigNumber; // l2Fee + l1Fee (in wei)
+  totalUsd: number;
+}
+
+/*
+ * Estimates the full cost of a transaction on Optimism, the L2 execution fee plus the L1 data fee,
+ * in both ETH (wei) and USD. Off Optimism (e.g. a local devnet) the L1 fee is assumed to be zero.
+ */
+export class GasEstimator {
+  private readonly logger: Logger;
+  private readonly gasPriceOracle: Contract;
+
+  constructor(
+    private readonly provider: providers.BaseProvider,
+    private readonly multicall: Multicall,
+    private readonly exchangeRates: Contract
+  ) {
+    this.logger = createLogger('GasEstimator');
+    this.gasPriceOracle = new Contract(GAS_PRICE_ORACLE_ADDRESS, GAS_PRICE_ORACLE_ABI, provider);
+  }
+
+  private async getL1Fee(tx: PopulatedTransaction, gasLimit: BigNumber, gasPrice: BigNumber) {
+    // The oracle expects the RLP encoded unsigned transaction, the nonce only marginally affects size.
+    const serialized = utils.serializeTransaction({
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      nonce: 0,
+      gasLimit,
+      gasPrice,
+    });
+    try {
+      return await this.multicall.call<BigNumber>(this.gasPriceOracle, 'getL1Fee', serialized);
+    } catch (err) {
+      this.logger.debug('Failed to fetch L1 fee, assuming zero', { args: { err } });
+      return BigNumber.from(0);
+    }
+  }
+
+  /* Fetches the price of ETH (in USD) used to denominate transaction costs. */
+  async getEthPrice(): Promise<number> {
+    const rate = await this.multicall.call<BigNumber>(
+      this.exchangeRates,
+      'rateForCurrency',
+      utils.formatBytes32String('sETH')
+    );
+    return parseFloat(utils.formatUnits(rate));
+  }
+
+  /* Estimates the cost of executing `tx`. Throws if the transaction would revert. */
+  async estimate(tx: PopulatedTransaction): Promise<TransactionCost> {
+    const [gasLimit, gasPrice, ethPrice] = await Promise.all([
+      this.provider.estimateGas(tx),
+      this.provider.getGasPrice(),
+      this.getEthPrice(),
+    ]);
+    const l1Fee = await this.getL1Fee(tx, gasLimit, gasPrice);
+    const l2Fee = gasLimit.mul(gasPrice);
+    const total = l2Fee.add(l1Fee);
+
+    return {
+      gasLimit,
+      gasPrice,
+      l2Fee,
+      l1Fee,
+      total,
+      totalUsd: parseFloat(utils.formatEther(total)) * ethPrice,
+    };
+  }
+}
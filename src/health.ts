@@ -0,0 +1,74 @@
+import { createServer, Server } from 'http';
+import { Logger } from 'winston';
+import { createLogger } from './logging';
+
+/*
+ * Why a component is not live (i.e. should be restarted) or not ready (i.e. should not be relied on to
+ * keep markets), both empty when healthy.
+ */
+export interface HealthCheck {
+  liveness: string[];
+  readiness: string[];
+}
+
+/* Combines the health of components, prefixing their reasons with `prefix` (e.g. the market). */
+export const combineHealthChecks = (checks: HealthCheck[], prefix?: string): HealthCheck => {
+  const format = (reason: string) => (prefix ? `${prefix} ${reason}` : reason);
+  return {
+    liveness: checks.flatMap(({ liveness }) => liveness.map(format)),
+    readiness: checks.flatMap(({ readiness }) => readiness.map(format)),
+  };
+};
+
+/*
+ * Serves `/healthz` (liveness) and `/readyz` (readiness) for process managers and orchestration to probe.
+ * Each responds 200 when healthy, otherwise 503, with the reasons as JSON.
+ */
+export class HealthServer {
+  private readonly logger: Logger;
+  private server?: Server;
+
+  constructor(private readonly healthcheck: () => HealthCheck) {
+    this.logger = createLogger('HealthServer');
+  }
+
+  private getReasons(path: string): string[] | undefined {
+    const { liveness, readiness } = this.healthcheck();
+    switch (path) {
+      case '/healthz':
+        return liveness;
+      case '/readyz':
+        // A keeper that isn't live isn't ready either.
+        return [...liveness, ...readiness];
+      default:
+        return undefined;
+    }
+  }
+
+  /* Serves health checks on `port`. */
+  listen(port: number): void {
+    this.server = createServer((req, res) => {
+      let reasons: string[] | undefined;
+      try {
+        reasons = req.method === 'GET' ? this.getReasons(req.url?.split('?')[0] ?? '') : undefined;
+      } catch (err) {
+        this.logger.error('Health check failed', { args: { err } });
+        reasons = [`Health check failed: ${(err as Error).message}`];
+      }
+
+      if (!reasons) {
+        res.writeHead(404).end();
+        return;
+      }
+      const status = reasons.length ? 'fail' : 'ok';
+      res
+        .writeHead(reasons.length ? 503 : 200, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ status, reasons }));
+    });
+    // e.g. the port is in use, health is no longer served but the keeper keeps running.
+    this.server.on('error', err =>
+      this.logger.error('Health server failed', { args: { err, port } })
+    );
+    this.server.listen(port, () => this.logger.info('Serving health checks', { args: { port } }));
+  }
+}
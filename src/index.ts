@@ -10,59 +10,66 @@ require('dotenv').config({
 
 import logProcessError from 'log-process-errors';
 import { createLogger } from './logging';
-import { getConfig, KeeperConfig } from './config';
-import { providers } from 'ethers';
+import {
+  getConfig,
+  getMarketKeeperConfig,
+  getRpcConfigs,
+  getSignerGroup,
+  isMarketKept,
+  KeeperConfig,
+  KeeperTypes,
+} from './config';
 import { getPerpsContracts } from './utils';
 import { Distributor } from './distributor';
+import { Coordinator } from './coordinator';
 import { LiquidationKeeper } from './keepers/liquidation';
 import { DelayedOrdersKeeper } from './keepers/delayedOrders';
 import { DelayedOffchainOrdersKeeper } from './keepers/delayedOffchainOrders';
+import { FundingRecomputeKeeper } from './keepers/fundingRecompute';
 import { Metric, Metrics } from './metrics';
-import { Network } from './typed';
-import { createSigners, SignerPool } from './signerpool';
+import { createFundingSigner, createSignerPools, createSigners, SignerPool } from './signerpool';
+import { SignerFunder } from './funder';
+import { loadSigners } from './signers';
+import { createFeeStrategy, getMaxFeeCap } from './fees';
+import { TxWatchdog } from './watchdog';
+import { BroadcastProvider } from './broadcast';
+import { createRpcEndpoints } from './rpc';
+import { SnapshotStore } from './snapshot';
+import { Multicall } from './multicall';
+import { GasEstimator } from './gas';
+import { BlockSubscription } from './subscription';
+import { DistributorFactory, MarketDiscovery } from './discovery';
+import { HealthServer } from './health';
 
 const logger = createLogger('Application');
 
-// 750ms.
-//
-// Waits `n` ms before executing the same request to the next provider ordered by priority.
-export const PROVIDER_STALL_TIMEOUT = 750;
-export const PROVIDER_DEFAULT_WEIGHT = 1;
-
 export const getProvider = async (
-  config: KeeperConfig['providerApiKeys'],
-  network: Network
-): Promise<providers.FallbackProvider> => {
-  // Infura has the highest priority (indicated by the lowest priority number).
-  const providersConfig: providers.FallbackProviderConfig[] = [
-    {
-      provider: new providers.JsonRpcProvider(config.infura),
-      // provider: new providers.JsonRpcProvider(network, config.infura),
-      priority: 10,
-      stallTimeout: PROVIDER_STALL_TIMEOUT,
-      weight: PROVIDER_DEFAULT_WEIGHT,
-    },
-  ];
-  if (config.alchemy) {
-    logger.info('Alchemy API key provided. Adding as fallback provider');
-    providersConfig.push({
-      provider: new providers.JsonRpcProvider(config.infura),
-      // provider: new providers.AlchemyProvider(network, config.alchemy),
-      priority: 20,
-      stallTimeout: PROVIDER_STALL_TIMEOUT,
-      weight: PROVIDER_DEFAULT_WEIGHT,
-    });
-  }
+  config: KeeperConfig,
+  metrics: Metrics
+): Promise<BroadcastProvider> => {
+  const rpcs = getRpcConfigs(config);
+  logger.info('Configuring RPC endpoints', {
+    args: { n: rpcs.length, broadcastOnly: config.broadcastUrls.length },
+  });
 
+  // Requests go to the healthy endpoints by priority (lowest first), signed transactions to all.
+  //
   // @see: https://docs.ethers.org/v5/api/providers/other/#FallbackProvider
-  return new providers.FallbackProvider(providersConfig);
+  return new BroadcastProvider(
+    createRpcEndpoints(rpcs),
+    config.broadcastUrls,
+    metrics,
+    config.rpcHealth,
+    config.txWatchdog.pollInterval
+  );
 };
 
 export const run = async (config: KeeperConfig) => {
-  const metrics = Metrics.create(config.isMetricsEnabled, config.network, config.aws);
+  const metrics = Metrics.create(config);
   metrics.count(Metric.KEEPER_STARTUP);
 
-  const provider = await getProvider(config.providerApiKeys, config.network);
+  const provider = await getProvider(config, metrics);
+  provider.monitorHealth();
   const latestBlock = await provider.getBlock('latest');
 
   logger.info('Connected to node', {
@@ -73,81 +80,158 @@ export const run = async (config: KeeperConfig) => {
     },
   });
 
-  const signers = createSigners(config.ethHdwalletMnemonic, provider, config.signerPoolSize);
-  const signer = signers[0]; // There will always be at least 1.
-  const signerPool = new SignerPool(signers, metrics);
+  // Transactions are priced by the fee strategy and re-priced by the watchdog when stuck.
+  const feeStrategy = createFeeStrategy(config.fees, provider);
+  const watchdog = new TxWatchdog(
+    provider,
+    feeStrategy,
+    getMaxFeeCap(config.fees),
+    metrics,
+    config.txWatchdog
+  );
 
-  const { markets, pyth, marketSettings, exchangeRates } = await getPerpsContracts(
-    config.network,
-    config.pythPriceServer,
-    signer,
-    provider
+  const signers = createSigners(
+    await loadSigners(config, provider),
+    feeStrategy,
+    metrics,
+    config.txWatchdog.timeout
   );
+  const signer = signers[0]; // There will always be at least 1.
 
-  const marketKeys = Object.keys(markets);
-  logger.info('Creating n keeper(s) per kept market...', {
-    args: { n: marketKeys.length },
-  });
-  for (const marketKey of marketKeys) {
-    const market = markets[marketKey];
-    const baseAsset = market.asset;
+  // Signers running low are topped up from the funding account, when configured.
+  const funder = config.fundingPrivateKey
+    ? new SignerFunder(
+        createFundingSigner(
+          config.fundingPrivateKey,
+          provider,
+          feeStrategy,
+          metrics,
+          config.txWatchdog.timeout
+        ),
+        watchdog,
+        metrics,
+        config.signerBalance
+      )
+    : undefined;
+  // Keeper types and markets may be assigned dedicated signers, the rest share the default group.
+  const signerPools = createSignerPools(signers, config, metrics, watchdog, funder);
+  Object.values(signerPools).forEach(signerPool => signerPool.monitorBalances());
+
+  const {
+    markets,
+    pyth,
+    marketSettings,
+    exchangeRates,
+    marketManager,
+    perpsV2ExchangeRates,
+  } = await getPerpsContracts(config.network, config.pythPriceServer, signer, provider);
+
+  const snapshotStore = new SnapshotStore(config.snapshotDir, config.network);
+
+  // Reads made by keepers (across all markets) in the same tick are batched into a single call.
+  const multicall = new Multicall(provider);
+  const gasEstimator = new GasEstimator(provider, multicall, exchangeRates);
 
+  const createDistributor: DistributorFactory = (marketKey, market, baseAsset, priceFeedId) => {
     logger.info('Configuring distributor/keepers for market', { args: { marketKey, baseAsset } });
     const distributor = new Distributor(
-      market.contract,
+      market,
+      marketKey,
       baseAsset,
-      provider,
-      metrics,
-      config.fromBlock,
-      config.distributorProcessInterval
+      snapshotStore,
+      config.snapshotInterval,
+      multicall,
+      metrics
     );
 
+    // Keeper types and tuning are configured globally then optionally overridden per market.
+    const { keepers: enabled, tuning } = getMarketKeeperConfig(config, marketKey);
+
+    const getSignerPool = (keeperType: keyof KeeperTypes): SignerPool => {
+      const group = getSignerGroup(config, keeperType, marketKey);
+      if (!signerPools[group]) {
+        throw new Error(`No signers in group '${group}' for ${keeperType} keeper (${marketKey})`);
+      }
+      return signerPools[group];
+    };
+
     const keepers = [];
-    keepers.push(
-      new LiquidationKeeper(
-        market.contract,
-        baseAsset,
-        signerPool,
-        provider,
-        metrics,
-        config.network
-      )
-    );
+    if (enabled.liquidation) {
+      keepers.push(
+        new LiquidationKeeper(
+          market,
+          marketSettings,
+          marketKey,
+          gasEstimator,
+          baseAsset,
+          getSignerPool('liquidation'),
+          provider,
+          multicall,
+          metrics,
+          config.network,
+          tuning
+        )
+      );
+    }
 
     // If we do not include a Pyth price feed, do not register an off-chain keeper.
-    if (pyth.priceFeedIds[baseAsset]) {
+    if (enabled.delayedOffchainOrders && priceFeedId) {
       keepers.push(
         new DelayedOffchainOrdersKeeper(
-          market.contract,
+          market,
           marketSettings,
           pyth.endpoint,
-          pyth.priceFeedIds[baseAsset],
+          priceFeedId,
           pyth.contract,
           marketKey,
           baseAsset,
-          signerPool,
+          getSignerPool('delayedOffchainOrders'),
           provider,
+          multicall,
           metrics,
           config.network,
+          tuning,
           config.maxOrderExecAttempts
         )
       );
-    } else {
+    } else if (enabled.delayedOffchainOrders) {
       logger.debug('Not registering off-chain keeper as feed not defined', { args: { baseAsset } });
     }
 
-    keepers.push(
-      new DelayedOrdersKeeper(
-        market.contract,
-        exchangeRates,
-        baseAsset,
-        signerPool,
-        provider,
-        metrics,
-        config.network,
-        config.maxOrderExecAttempts
-      )
-    );
+    if (enabled.delayedOrders) {
+      keepers.push(
+        new DelayedOrdersKeeper(
+          market,
+          exchangeRates,
+          marketSettings,
+          marketKey,
+          baseAsset,
+          getSignerPool('delayedOrders'),
+          provider,
+          multicall,
+          metrics,
+          config.network,
+          tuning,
+          config.maxOrderExecAttempts
+        )
+      );
+    }
+    if (enabled.fundingRecompute) {
+      keepers.push(
+        new FundingRecomputeKeeper(
+          market,
+          marketKey,
+          gasEstimator,
+          baseAsset,
+          getSignerPool('fundingRecompute'),
+          provider,
+          multicall,
+          metrics,
+          config.network,
+          tuning
+        )
+      );
+    }
     logger.info('Registering keepers to distributor', { args: { n: keepers.length } });
 
     // Register all instantiated keepers. The order of importance is as follows:
@@ -155,9 +239,74 @@ export const run = async (config: KeeperConfig) => {
     // 1. Liquidations
     // 2. Delayed off-chain orders (Pyth)
     // 3. Delayed on-chain orders (CL)
+    // 4. Funding recomputes
     distributor.registerKeepers(keepers);
-    distributor.listen();
+    return distributor;
+  };
+
+  const marketKeys = Object.keys(markets).filter(marketKey => {
+    const isKept = isMarketKept(config, marketKey);
+    if (!isKept) {
+      logger.info(`Skipping market (not allowed by config): '${marketKey}'`);
+    }
+    return isKept;
+  });
+  logger.info('Creating n keeper(s) per kept market...', {
+    args: { n: marketKeys.length },
+  });
+  const distributors = marketKeys.map(marketKey =>
+    createDistributor(
+      marketKey,
+      markets[marketKey].contract,
+      markets[marketKey].asset,
+      pyth.priceFeedIds[markets[marketKey].asset]
+    )
+  );
+
+  // When a WebSocket endpoint is available, process blocks as they're produced rather than polling.
+  const subscription = config.wsProviderUrl
+    ? new BlockSubscription(config.wsProviderUrl, metrics, config.wsResubscribeInterval)
+    : undefined;
+
+  // A single block clock fetches blocks and events once for all markets then routes to each distributor.
+  const coordinator = new Coordinator(
+    provider,
+    metrics,
+    config.fromBlock,
+    config.distributorProcessInterval,
+    config.reconciliationInterval,
+    subscription
+  );
+  coordinator.registerDistributors(distributors);
+
+  // Persist indexes on shutdown so the next startup only has to fetch blocks produced since.
+  const shutdown = async (signal: string) => {
+    logger.info('Received shutdown signal, saving snapshots...', { args: { signal } });
+    await coordinator.saveSnapshots();
+    await metrics.flush();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  if (config.health.port) {
+    new HealthServer(() => coordinator.healthcheck(config.health)).listen(config.health.port);
   }
+
+  coordinator.listen();
+
+  // Markets added (or removed) by governance after startup are picked up without a restart.
+  const discovery = new MarketDiscovery(
+    marketManager,
+    perpsV2ExchangeRates,
+    signer,
+    coordinator,
+    createDistributor,
+    marketKey => isMarketKept(config, marketKey),
+    metrics,
+    config.marketDiscoveryInterval
+  );
+  discovery.listen();
 };
 
 logProcessError({
@@ -1,12 +1,21 @@
 import { Block } from '@ethersproject/abstract-provider';
 import { BigNumber, Contract, ethers, Event, providers, utils } from 'ethers';
 import { Keeper } from '.';
-import { DelayedOrder, PerpsEvent } from '../typed';
+import { DelayedOrder, OrderOutcome, PerpsEvent, SignerPriority } from '../typed';
 import { chunk } from 'lodash';
 import { EvmPriceServiceConnection } from '@pythnetwork/pyth-evm-js';
 import { Metric, Metrics } from '../metrics';
+import { Multicall } from '../multicall';
 import { delay, sendTG } from '../utils';
 import { SignerPool } from '../signerpool';
+import { KeeperTuning } from '../config';
+import {
+  deserializeDelayedOrders,
+  partitionPendingOrders,
+  reconcileDelayedOrders,
+  serializeDelayedOrders,
+} from './helpers';
+import { RevertAction, RevertReason } from './simulation';
 
 export class DelayedOffchainOrdersKeeper extends Keeper {
   // The index
@@ -17,10 +26,10 @@ export class DelayedOffchainOrdersKeeper extends Keeper {
   //
   // Note: Since we don't use block.timestamp but rather Date.now, timestamps on-chain
   // may not be up to date as a result, executing a tiny bit too early.
-  private readonly MIN_AGE_BUFFER = 3;
+  private readonly MIN_AGE_BUFFER: number;
 
-  // An additional buffer added to maxAge to determine if an order is stale.
-  private readonly MAX_AGE_BUFFER = 60 * 5; // 5mins (in seconds).
+  // An additional buffer added to maxAge to determine if an order is stale (in seconds).
+  private readonly MAX_AGE_BUFFER: number;
 
   private readonly PYTH_MAX_TIMEOUT = 3000;
   private readonly PYTH_MAX_RETRIES = 5;
@@ -40,11 +49,26 @@ export class DelayedOffchainOrdersKeeper extends Keeper {
     baseAsset: string,
     signerPool: SignerPool,
     provider: providers.BaseProvider,
+    multicall: Multicall,
     metrics: Metrics,
     network: string,
+    tuning: KeeperTuning,
     private readonly maxExecAttempts: number
   ) {
-    super('DelayedOffchainOrdersKeeper', market, baseAsset, signerPool, provider, metrics, network);
+    super(
+      'DelayedOffchainOrdersKeeper',
+      market,
+      baseAsset,
+      signerPool,
+      provider,
+      multicall,
+      metrics,
+      network,
+      tuning
+    );
+    this.metricDimensions.MarketKey = marketKey;
+    this.MIN_AGE_BUFFER = tuning.minAgeBuffer;
+    this.MAX_AGE_BUFFER = tuning.maxAgeBuffer;
 
     this.pythConnection = new EvmPriceServiceConnection(offchainEndpoint, {
       httpRetries: this.PYTH_MAX_RETRIES,
@@ -52,6 +76,25 @@ export class DelayedOffchainOrdersKeeper extends Keeper {
     });
   }
 
+  serializeIndex(): unknown {
+    return serializeDelayedOrders(this.orders);
+  }
+
+  restoreIndex(data: unknown): void {
+    this.orders = deserializeDelayedOrders(data);
+  }
+
+  async reconcile(accounts: string[]): Promise<number> {
+    return reconcileDelayedOrders(
+      this.orders,
+      accounts,
+      true,
+      this.market,
+      this.multicall,
+      this.logger
+    );
+  }
+
   async updateIndex(events: Event[]): Promise<void> {
     if (!events.length) {
       return;
@@ -110,6 +153,7 @@ export class DelayedOffchainOrdersKeeper extends Keeper {
             account,
             intentionTime: timestamp,
             executionFailures: 0,
+            cancellationFailures: 0,
           };
           break;
         }
@@ -128,9 +172,76 @@ export class DelayedOffchainOrdersKeeper extends Keeper {
     }
   }
 
+  /* Cancels an order past its execution window if enabled, otherwise stops tracking it. */
+  private async cancelOrder(order: DelayedOrder): Promise<void> {
+    const { account } = order;
+
+    if (!this.tuning.cancelStaleOrders) {
+      this.logger.warn('Order might be stale can only be cancelled', { args: { account } });
+      delete this.orders[account];
+      return;
+    }
+
+    if (order.cancellationFailures >= this.tuning.maxOrderCancelAttempts) {
+      this.logger.info('Off-chain order cancellation exceeded max attempts', {
+        args: { account, attempts: order.cancellationFailures },
+      });
+      this.metrics.count(Metric.ORDER_CANCELLATION_FAILED, this.metricDimensions);
+      sendTG(`Delayed-OffchainOrder, User ${account}, Order cancellation exceeded max attempts.`);
+      delete this.orders[account];
+      return;
+    }
+
+    try {
+      const failure = await this.simulateAction(
+        () => this.market.callStatic.cancelOffchainDelayedOrder(account),
+        { account }
+      );
+      if (failure?.action === RevertAction.DROP) {
+        delete this.orders[account];
+        return;
+      }
+      if (failure?.action === RevertAction.RETRY) {
+        order.cancellationFailures += 1;
+        return;
+      }
+      if (failure?.action === RevertAction.WAIT) {
+        return;
+      }
+
+      await this.signerPool.withSigner(
+        async signer => {
+          this.logger.info('Cancelling stale off-chain order...', { args: { account } });
+          const tx = await this.market.connect(signer).cancelOffchainDelayedOrder(account);
+
+          this.logger.info('Submitted transaction, waiting for completion...', {
+            args: { account, nonce: tx.nonce },
+          });
+          const receipt = await this.waitTx(tx, signer);
+          this.recordOrderLatency(order.intentionTime, receipt, OrderOutcome.CANCELLED);
+          sendTG(
+            `Delayed-OffchainOrder, User ${account}, Stale order cancelled. ${receipt.transactionHash}`
+          );
+          delete this.orders[account];
+        },
+        { asset: this.baseAsset, priority: SignerPriority.OFFCHAIN_ORDER }
+      );
+      this.metrics.count(Metric.OFFCHAIN_ORDER_CANCELLED, this.metricDimensions);
+    } catch (err) {
+      order.cancellationFailures += 1;
+      this.metrics.count(Metric.KEEPER_ERROR, this.metricDimensions);
+      this.logger.error('Off-chain order cancellation failed', {
+        args: { cancellationFailures: order.cancellationFailures, account, err },
+      });
+      const { message } = err as Error;
+      sendTG(`Delayed-OffchainOrder, User ${account}, Order cancellation failed. ${message}`);
+    }
+  }
+
   private async executeOrder(
     account: string,
-    isOrderStale: (order: DelayedOrder) => boolean
+    isOrderStale: (order: DelayedOrder) => boolean,
+    minAge: number
   ): Promise<void> {
     const order = this.orders[account];
 
@@ -142,6 +253,11 @@ export class DelayedOffchainOrdersKeeper extends Keeper {
       return;
     }
 
+    // Orders past their execution window can only be cancelled.
+    if (isOrderStale(order)) {
+      return this.cancelOrder(order);
+    }
+
     if (order.executionFailures >= this.maxExecAttempts) {
       this.logger.info('Order execution exceeded max attempts', {
         args: { account, attempts: order.executionFailures },
@@ -151,25 +267,43 @@ export class DelayedOffchainOrdersKeeper extends Keeper {
       return;
     }
 
-    if (isOrderStale(order)) {
-      this.logger.warn('Order might be stale can only be cancelled', { args: { account } });
-      delete this.orders[account];
-      return;
-    }
-
     try {
-      await this.signerPool.withSigner(
-        async signer => {
-          this.logger.info('Fetching Pyth off-chain price data', {
-            args: { feed: this.offchainPriceFeedId, account },
-          });
+      this.logger.info('Fetching Pyth off-chain price data', {
+        args: { feed: this.offchainPriceFeedId, account },
+      });
 
-          // Grab Pyth offchain data to send with the `executeOffchainDelayedOrder` call.
-          const priceUpdateData = await this.pythConnection.getPriceFeedsUpdateData([
-            this.offchainPriceFeedId,
-          ]);
-          const updateFee = await this.pythContract.getUpdateFee(priceUpdateData);
+      // Grab Pyth offchain data to send with the `executeOffchainDelayedOrder` call.
+      const priceUpdateData = await this.pythConnection.getPriceFeedsUpdateData([
+        this.offchainPriceFeedId,
+      ]);
+      const updateFee = await this.pythContract.getUpdateFee(priceUpdateData);
 
+      // Avoid spending gas and signer time on executions that are certain to revert.
+      const failure = await this.simulateAction(
+        () =>
+          this.market.callStatic.executeOffchainDelayedOrder(account, priceUpdateData, {
+            value: updateFee,
+          }),
+        { account }
+      );
+      if (failure?.reason === RevertReason.ORDER_EXPIRED) {
+        return this.cancelOrder(order);
+      }
+      if (failure?.action === RevertAction.DROP) {
+        sendTG(`Delayed-OffchainOrder, User ${order.account}, Order dropped. ${failure.message}`);
+        delete this.orders[account];
+        return;
+      }
+      if (failure?.action === RevertAction.RETRY) {
+        order.executionFailures += 1;
+        return;
+      }
+      if (failure?.action === RevertAction.WAIT) {
+        return;
+      }
+
+      await this.signerPool.withSigner(
+        async signer => {
           this.logger.info('Executing off-chain order...', {
             args: { account, fee: updateFee.toString() },
           });
@@ -181,11 +315,12 @@ export class DelayedOffchainOrdersKeeper extends Keeper {
           this.logger.info('Submitted transaction, waiting for completion...', {
             args: { account, nonce: tx.nonce },
           });
-          const receipt = await this.waitTx(tx);
+          const receipt = await this.waitTx(tx, signer);
+          this.recordOrderLatency(order.intentionTime + minAge, receipt, OrderOutcome.EXECUTED);
           sendTG(`Delayed-OffchainOrder, User ${order.account}, Order execution succeeded. ${receipt.transactionHash}`);
           delete this.orders[account];
         },
-        { asset: this.baseAsset }
+        { asset: this.baseAsset, priority: SignerPriority.OFFCHAIN_ORDER }
       );
       this.metrics.count(Metric.OFFCHAIN_ORDER_EXECUTED, this.metricDimensions);
     } catch (err) {
@@ -206,8 +341,18 @@ export class DelayedOffchainOrdersKeeper extends Keeper {
     const bytes32BaseAsset = utils.formatBytes32String(this.marketKey);
 
     this.logger.debug('Fetching min/max ages', { args: { marketKey: this.marketKey } });
-    const minAge = await this.marketSettings.offchainDelayedOrderMinAge(bytes32BaseAsset);
-    const maxAge = await this.marketSettings.offchainDelayedOrderMaxAge(bytes32BaseAsset);
+    const [minAge, maxAge] = await Promise.all([
+      this.multicall.call<BigNumber>(
+        this.marketSettings,
+        'offchainDelayedOrderMinAge',
+        bytes32BaseAsset
+      ),
+      this.multicall.call<BigNumber>(
+        this.marketSettings,
+        'offchainDelayedOrderMaxAge',
+        bytes32BaseAsset
+      ),
+    ]);
 
     this.logger.info('Found off-chain order min/max age', {
       args: { minAge, maxAge, marketKey: this.marketKey },
@@ -232,10 +377,23 @@ export class DelayedOffchainOrdersKeeper extends Keeper {
       // get `block.timestamp == undefined`. Instead, try execute anyway in the event timestamp
       // is updated on the next block.
       const now = BigNumber.from(Math.round(Date.now() / 1000));
-      const executableOrders = orders.filter(({ intentionTime }) =>
+      const readyOrders = orders.filter(({ intentionTime }) =>
         now.sub(intentionTime).gt(minAge.add(this.MIN_AGE_BUFFER))
       );
 
+      // Orders executed or cancelled on-chain but not yet indexed are dropped rather than executed.
+      const { pending: executableOrders, removed } = await partitionPendingOrders(
+        readyOrders,
+        this.market,
+        this.multicall
+      );
+      removed.forEach(({ account }) => {
+        this.logger.info('Off-chain order no longer pending on-chain. Removing from index', {
+          args: { account },
+        });
+        delete this.orders[account];
+      });
+
       // No orders. Move on.
       if (executableOrders.length === 0) {
         this.logger.info('No off-chain orders ready... skipping', {
@@ -258,7 +416,9 @@ export class DelayedOffchainOrdersKeeper extends Keeper {
       for (const batch of chunk(executableOrders, this.MAX_BATCH_SIZE)) {
         this.logger.info('Running keeper batch orders', { args: { n: batch.length } });
         const batches = batch.map(({ account }) =>
-          this.execAsyncKeeperCallback(account, () => this.executeOrder(account, isOrderStale))
+          this.execAsyncKeeperCallback(account, () =>
+            this.executeOrder(account, isOrderStale, minAge.toNumber())
+          )
         );
         await Promise.all(batches);
         this.logger.info(`Processed processed with '${batch.length}' orders(s) to kept`);
@@ -1,11 +1,20 @@
 import { Block } from '@ethersproject/abstract-provider';
 import { BigNumber, Contract, Event, providers, utils } from 'ethers';
 import { Keeper } from '.';
-import { DelayedOrder, PerpsEvent } from '../typed';
+import { DelayedOrder, OrderOutcome, PerpsEvent, SignerPriority } from '../typed';
 import { chunk } from 'lodash';
 import { Metric, Metrics } from '../metrics';
+import { Multicall } from '../multicall';
 import { delay, sendTG } from '../utils';
 import { SignerPool } from '../signerpool';
+import { KeeperTuning } from '../config';
+import {
+  deserializeDelayedOrders,
+  partitionPendingOrders,
+  reconcileDelayedOrders,
+  serializeDelayedOrders,
+} from './helpers';
+import { RevertAction, RevertReason } from './simulation';
 
 export class DelayedOrdersKeeper extends Keeper {
   // The index
@@ -19,14 +28,48 @@ export class DelayedOrdersKeeper extends Keeper {
   constructor(
     market: Contract,
     private readonly exchangeRates: Contract,
+    private readonly marketSettings: Contract,
+    private readonly marketKey: string,
     baseAsset: string,
     signerPool: SignerPool,
     provider: providers.BaseProvider,
+    multicall: Multicall,
     metrics: Metrics,
     network: string,
+    tuning: KeeperTuning,
     private readonly maxExecAttempts: number
   ) {
-    super('DelayedOrdersKeeper', market, baseAsset, signerPool, provider, metrics, network);
+    super(
+      'DelayedOrdersKeeper',
+      market,
+      baseAsset,
+      signerPool,
+      provider,
+      multicall,
+      metrics,
+      network,
+      tuning
+    );
+    this.metricDimensions.MarketKey = marketKey;
+  }
+
+  serializeIndex(): unknown {
+    return serializeDelayedOrders(this.orders);
+  }
+
+  restoreIndex(data: unknown): void {
+    this.orders = deserializeDelayedOrders(data);
+  }
+
+  async reconcile(accounts: string[]): Promise<number> {
+    return reconcileDelayedOrders(
+      this.orders,
+      accounts,
+      false,
+      this.market,
+      this.multicall,
+      this.logger
+    );
   }
 
   async updateIndex(events: Event[]): Promise<void> {
@@ -75,6 +118,7 @@ export class DelayedOrdersKeeper extends Keeper {
             account,
             intentionTime: timestamp,
             executionFailures: 0,
+            cancellationFailures: 0,
           };
           break;
         }
@@ -93,7 +137,77 @@ export class DelayedOrdersKeeper extends Keeper {
     }
   }
 
-  private async executeOrder(account: string): Promise<void> {
+  /* Cancels an order past its execution window if enabled, otherwise stops tracking it. */
+  private async cancelOrder(order: DelayedOrder): Promise<void> {
+    const { account } = order;
+
+    if (!this.tuning.cancelStaleOrders) {
+      this.logger.warn('Order is stale and can only be cancelled', { args: { account } });
+      delete this.orders[account];
+      return;
+    }
+
+    if (order.cancellationFailures >= this.tuning.maxOrderCancelAttempts) {
+      this.logger.info('Order cancellation exceeded max attempts', {
+        args: { account, attempts: order.cancellationFailures },
+      });
+      this.metrics.count(Metric.ORDER_CANCELLATION_FAILED, this.metricDimensions);
+      sendTG(`Delayed-Order, User ${account}, Order cancellation exceeded max attempts.`);
+      delete this.orders[account];
+      return;
+    }
+
+    try {
+      const failure = await this.simulateAction(
+        () => this.market.callStatic.cancelDelayedOrder(account),
+        { account }
+      );
+      if (failure?.action === RevertAction.DROP) {
+        delete this.orders[account];
+        return;
+      }
+      if (failure?.action === RevertAction.RETRY) {
+        order.cancellationFailures += 1;
+        return;
+      }
+      if (failure?.action === RevertAction.WAIT) {
+        return;
+      }
+
+      await this.signerPool.withSigner(
+        async signer => {
+          this.logger.info('Cancelling stale delayed order...', { args: { account } });
+          const tx = await this.market.connect(signer).cancelDelayedOrder(account);
+
+          this.logger.info('Submitted transaction, waiting for completion...', {
+            args: { account, nonce: tx.nonce },
+          });
+          const receipt = await this.waitTx(tx, signer);
+          this.recordOrderLatency(order.intentionTime, receipt, OrderOutcome.CANCELLED);
+          sendTG(
+            `Delayed-Order, User ${account}, Stale order cancelled. ${receipt.transactionHash}`
+          );
+          delete this.orders[account];
+        },
+        { asset: this.baseAsset, priority: SignerPriority.DELAYED_ORDER }
+      );
+      this.metrics.count(Metric.DELAYED_ORDER_CANCELLED, this.metricDimensions);
+    } catch (err) {
+      order.cancellationFailures += 1;
+      this.metrics.count(Metric.KEEPER_ERROR, this.metricDimensions);
+      this.logger.error('Delayed order cancellation failed', {
+        args: { cancellationFailures: order.cancellationFailures, account, err },
+      });
+      sendTG(
+        `Delayed-Order, User ${account}, Order cancellation failed. ${(err as Error).message}`
+      );
+    }
+  }
+
+  private async executeOrder(
+    account: string,
+    isOrderStale: (order: DelayedOrder) => boolean
+  ): Promise<void> {
     // Cases:
     //
     // (A) Invokes execute
@@ -103,6 +217,8 @@ export class DelayedOrdersKeeper extends Keeper {
     //  - The order missed execution window. It must be cancelled
     //  - The order missed execution window. Cancellation is failing (e.g. paused)
     //  - We think the order can be executed/cancelled but the order does not exist
+    // (C) Invokes cancel (when enabled) and fails after n attempts and discards
+    //  - The order missed execution window and can only be cancelled
 
     const order = this.orders[account];
 
@@ -111,6 +227,11 @@ export class DelayedOrdersKeeper extends Keeper {
       return;
     }
 
+    // Orders past their execution window can only be cancelled.
+    if (isOrderStale(order)) {
+      return this.cancelOrder(order);
+    }
+
     if (order.executionFailures > this.maxExecAttempts) {
       this.logger.info('Order execution exceeded max attempts', {
         args: { account, attempts: order.executionFailures },
@@ -120,9 +241,28 @@ export class DelayedOrdersKeeper extends Keeper {
       return;
     }
 
-    // TODO: Remove DelayedOrders that cannot be executed (and only be cancelled).
-
     try {
+      // Avoid spending gas and signer time on executions that are certain to revert.
+      const failure = await this.simulateAction(
+        () => this.market.callStatic.executeDelayedOrder(account),
+        { account }
+      );
+      if (failure?.reason === RevertReason.ORDER_EXPIRED) {
+        return this.cancelOrder(order);
+      }
+      if (failure?.action === RevertAction.DROP) {
+        sendTG(`Delayed-Order, User ${order.account}, Order dropped. ${failure.message}`);
+        delete this.orders[account];
+        return;
+      }
+      if (failure?.action === RevertAction.RETRY) {
+        order.executionFailures += 1;
+        return;
+      }
+      if (failure?.action === RevertAction.WAIT) {
+        return;
+      }
+
       await this.signerPool.withSigner(
         async signer => {
           this.logger.info('Executing delayed order...', { args: { account } });
@@ -131,11 +271,12 @@ export class DelayedOrdersKeeper extends Keeper {
           this.logger.info('Submitted transaction, waiting for completion...', {
             args: { account, nonce: tx.nonce },
           });
-          const receipt = await this.waitTx(tx);
+          const receipt = await this.waitTx(tx, signer);
+          this.recordOrderLatency(order.intentionTime, receipt, OrderOutcome.EXECUTED);
           sendTG(`Delayed-OffchainOrder, User ${order.account}, Order execution succeeded. ${receipt.transactionHash}`);
           delete this.orders[account];
         },
-        { asset: this.baseAsset }
+        { asset: this.baseAsset, priority: SignerPriority.DELAYED_ORDER }
       );
       this.metrics.count(Metric.DELAYED_ORDER_EXECUTED, this.metricDimensions);
     } catch (err) {
@@ -158,25 +299,51 @@ export class DelayedOrdersKeeper extends Keeper {
         return;
       }
 
-      // Get the latest CL roundId.
-      const currentRoundId = await this.exchangeRates.getCurrentRoundId(
-        utils.formatBytes32String(this.baseAsset)
-      );
+      // Get the latest CL roundId and the number of rounds an order can be executed within.
+      const [currentRoundId, confirmWindow] = await Promise.all([
+        this.multicall.call<BigNumber>(
+          this.exchangeRates,
+          'getCurrentRoundId',
+          utils.formatBytes32String(this.baseAsset)
+        ),
+        this.multicall.call<BigNumber>(
+          this.marketSettings,
+          'delayedOrderConfirmWindow',
+          utils.formatBytes32String(this.marketKey)
+        ),
+      ]);
 
       const block = await this.provider.getBlock(await this.provider.getBlockNumber());
 
       // Filter out orders that may be ready to execute.
-      const executableOrders = orders.filter(
+      const readyOrders = orders.filter(
         ({ executableAtTime, targetRoundId }) =>
           currentRoundId.gte(targetRoundId) || BigNumber.from(block.timestamp).gte(executableAtTime)
       );
 
+      // Orders executed or cancelled on-chain but not yet indexed are dropped rather than executed.
+      const { pending: executableOrders, removed } = await partitionPendingOrders(
+        readyOrders,
+        this.market,
+        this.multicall
+      );
+      removed.forEach(({ account }) => {
+        this.logger.info('Order no longer pending on-chain. Removing from index', {
+          args: { account },
+        });
+        delete this.orders[account];
+      });
+
       // No orders. Move on.
       if (executableOrders.length === 0) {
         this.logger.info('No delayed orders ready... skipping');
         return;
       }
 
+      const isOrderStale = ({ executableAtTime, targetRoundId }: DelayedOrder): boolean =>
+        BigNumber.from(block.timestamp).gt(executableAtTime) &&
+        currentRoundId.gt(targetRoundId.add(confirmWindow));
+
       this.logger.info(
         `Found ${executableOrders.length}/${orders.length} order(s) that can be executed`
       );
@@ -184,7 +351,7 @@ export class DelayedOrdersKeeper extends Keeper {
       for (const batch of chunk(executableOrders, this.MAX_BATCH_SIZE)) {
         this.logger.info(`Running keeper batch with '${batch.length}' orders(s) to keep`);
         const batches = batch.map(({ account }) =>
-          this.execAsyncKeeperCallback(account, () => this.executeOrder(account))
+          this.execAsyncKeeperCallback(account, () => this.executeOrder(account, isOrderStale))
         );
         await Promise.all(batches);
         await delay(this.BATCH_WAIT_TIME);
@@ -0,0 +1,165 @@
+import { BigNumber, Contract, Event, providers, utils } from 'ethers';
+import { z } from 'zod';
+import { Keeper } from '.';
+import { KeeperTuning } from '../config';
+import { GasEstimator } from '../gas';
+import { Metric, Metrics } from '../metrics';
+import { Multicall } from '../multicall';
+import { SignerPool } from '../signerpool';
+import { PerpsEvent, SignerPriority } from '../typed';
+import { sendTG } from '../utils';
+import { RevertReason } from './simulation';
+
+const SerializedFundingIndexSchema = z.object({
+  fundingLastRecomputed: z.number(),
+});
+
+export class FundingRecomputeKeeper extends Keeper {
+  // The index
+  private fundingLastRecomputed: number = 0;
+  private blockTipTimestamp: number = 0;
+
+  // Block timestamp until which recomputes are not attempted, after the market rejected the keeper.
+  private notPermittedUntil = 0;
+
+  // Interval before trying again once the market does not permit the keeper to recompute.
+  private readonly NOT_PERMITTED_BACKOFF = 24 * 60 * 60; // 1 day (in seconds).
+
+  readonly EVENTS_OF_INTEREST: PerpsEvent[] = [PerpsEvent.FundingRecomputed];
+
+  constructor(
+    market: Contract,
+    marketKey: string,
+    private readonly gasEstimator: GasEstimator,
+    baseAsset: string,
+    signerPool: SignerPool,
+    provider: providers.BaseProvider,
+    multicall: Multicall,
+    metrics: Metrics,
+    network: string,
+    tuning: KeeperTuning
+  ) {
+    super(
+      'FundingRecomputeKeeper',
+      market,
+      baseAsset,
+      signerPool,
+      provider,
+      multicall,
+      metrics,
+      network,
+      tuning
+    );
+    this.metricDimensions.MarketKey = marketKey;
+  }
+
+  serializeIndex(): unknown {
+    return { fundingLastRecomputed: this.fundingLastRecomputed };
+  }
+
+  restoreIndex(data: unknown): void {
+    const { fundingLastRecomputed } = SerializedFundingIndexSchema.parse(data);
+    this.fundingLastRecomputed = fundingLastRecomputed;
+  }
+
+  async updateIndex(events: Event[], block?: providers.Block): Promise<void> {
+    if (block) {
+      this.blockTipTimestamp = block.timestamp;
+    }
+
+    events.forEach(({ event, args }) => {
+      if (event === PerpsEvent.FundingRecomputed && args) {
+        this.fundingLastRecomputed = args.timestamp.toNumber();
+      }
+    });
+  }
+
+  /* Whether funding is stale enough (by time since the last recompute or rate drift) to recompute. */
+  private async isRecomputeRequired(): Promise<boolean> {
+    const [fundingLastRecomputed, fundingVelocity] = await Promise.all([
+      this.multicall.call<number>(this.market, 'fundingLastRecomputed'),
+      this.multicall.call<BigNumber>(this.market, 'currentFundingVelocity'),
+    ]);
+    // Prefer on-chain, a recompute may have happened in a block not yet indexed.
+    this.fundingLastRecomputed = Math.max(this.fundingLastRecomputed, fundingLastRecomputed);
+
+    // The funding rate drifts from the last recorded rate by velocity (per day) over elapsed time.
+    const elapsed = Math.max(0, this.blockTipTimestamp - this.fundingLastRecomputed);
+    const rateDrift = Math.abs(parseFloat(utils.formatUnits(fundingVelocity))) * (elapsed / 86400);
+
+    this.metrics.gauge(Metric.FUNDING_RECOMPUTE_AGE, elapsed, this.metricDimensions);
+    this.logger.debug('Checked funding staleness', { args: { elapsed, rateDrift } });
+
+    return (
+      elapsed >= this.tuning.fundingRecomputeMaxAge ||
+      rateDrift >= this.tuning.fundingRecomputeMaxRateDrift
+    );
+  }
+
+  private async recomputeFunding(): Promise<void> {
+    if (!(await this.isRecomputeRequired()) || this.blockTipTimestamp < this.notPermittedUntil) {
+      return;
+    }
+
+    const failure = await this.simulateAction(() => this.market.callStatic.recomputeFunding(), {});
+    if (failure?.reason === RevertReason.NOT_PERMITTED) {
+      // Markets may only allow their settings to recompute (i.e. when parameters change), rather
+      // than simulating every block, alert and check again after backing off.
+      this.notPermittedUntil = this.blockTipTimestamp + this.NOT_PERMITTED_BACKOFF;
+      this.logger.error('Funding recompute not permitted, backing off', {
+        args: { notPermittedUntil: this.notPermittedUntil },
+      });
+      sendTG(
+        `Funding-Recompute, ${this.baseAsset} recompute not permitted by the market. Retrying in ${this.NOT_PERMITTED_BACKOFF}s`
+      );
+      this.metrics.count(Metric.KEEPER_ERROR, this.metricDimensions);
+      return;
+    }
+    if (failure) {
+      return;
+    }
+
+    const cost = await this.gasEstimator.estimate(
+      await this.market.populateTransaction.recomputeFunding()
+    );
+    if (cost.totalUsd > this.tuning.fundingRecomputeMaxCost) {
+      this.logger.info('Funding recompute exceeds cost ceiling, skipping', {
+        args: { cost: cost.totalUsd, maxCost: this.tuning.fundingRecomputeMaxCost },
+      });
+      this.metrics.count(Metric.FUNDING_RECOMPUTE_SKIPPED, this.metricDimensions);
+      return;
+    }
+
+    try {
+      await this.signerPool.withSigner(
+        async signer => {
+          this.logger.info('Recomputing funding...', {
+            args: { fundingLastRecomputed: this.fundingLastRecomputed, cost: cost.totalUsd },
+          });
+          const tx = await this.market.connect(signer).recomputeFunding();
+
+          this.logger.info('Submitted transaction, waiting for completion...', {
+            args: { nonce: tx.nonce },
+          });
+          await this.waitTx(tx, signer);
+        },
+        { asset: this.baseAsset, priority: SignerPriority.FUNDING_RECOMPUTE }
+      );
+      this.metrics.count(Metric.FUNDING_RECOMPUTED, this.metricDimensions);
+    } catch (err) {
+      this.metrics.count(Metric.KEEPER_ERROR, this.metricDimensions);
+      this.logger.error('Funding recompute failed', { args: { err } });
+      sendTG(`Funding-Recompute, ${this.baseAsset} recompute failed. ${(err as Error).message}`);
+    }
+  }
+
+  async execute(): Promise<void> {
+    try {
+      await this.execAsyncKeeperCallback('recomputeFunding', () => this.recomputeFunding());
+    } catch (err) {
+      this.logger.error('Failed to execute funding recompute', { args: { err } });
+      this.logger.error((err as Error).stack);
+      sendTG(`Funding-Recompute keeper failing. Please process soon ${(err as Error).message}`);
+    }
+  }
+}
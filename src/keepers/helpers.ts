@@ -1,59 +1,267 @@
-import { Contract, utils } from 'ethers';
-import { range } from 'lodash';
+import { BigNumber, Contract, Event, providers, utils } from 'ethers';
+import { keyBy, mapValues, range, uniq } from 'lodash';
 import { Logger } from 'winston';
-import { PerpsEvent } from '../typed';
+import { z } from 'zod';
+import { DelayedOrder, OnchainDelayedOrder, PerpsEvent, Position } from '../typed';
+import { Metric, Metrics } from '../metrics';
+import { Multicall } from '../multicall';
+import { delay } from '../utils';
 
+// Initial (and maximum) number of blocks to query per `eth_getLogs` request.
 const MAX_BLOCKS = 5_000;
 
-export const getPaginatedFromAndTo = (fromBlock: number, toBlock: number) => {
-  const numberOfBlocks = toBlock - fromBlock || 1; // 27296094
+// Smallest window size remembered per provider (individual ranges may still split further).
+const MIN_BLOCKS = 10;
 
-  const numberOfGroups = Math.ceil(numberOfBlocks / MAX_BLOCKS);
-  return range(0, numberOfGroups).map((x: number) => {
-    const newFrom = fromBlock + x * MAX_BLOCKS;
-    return {
-      fromBlock: newFrom,
-      toBlock: Math.min(newFrom + MAX_BLOCKS, toBlock),
-    };
-  });
+// Maximum number of `eth_getLogs` requests in flight per `getEvents` call.
+const MAX_CONCURRENT_REQUESTS = 4;
+
+// Number of consecutive successful queries before attempting to grow the window again.
+const WINDOW_GROWTH_THRESHOLD = 20;
+
+// Number of times a rate limited query is retried, and the wait (ms) before the first retry (doubling after).
+const MAX_RATE_LIMIT_RETRIES = 3;
+const RATE_LIMIT_BACKOFF = 1000;
+
+// Last known working window size per provider, shared across all `getEvents` calls.
+const windows = new WeakMap<providers.BaseProvider, { size: number; successes: number }>();
+
+const getWindow = (provider: providers.BaseProvider) => {
+  let window = windows.get(provider);
+  if (!window) {
+    window = { size: MAX_BLOCKS, successes: 0 };
+    windows.set(provider, window);
+  }
+  return window;
 };
 
-export const getEvents = async (
-  eventNames: PerpsEvent[],
-  contract: Contract,
+// Errors providers return when a log query matches too many logs or spans too many blocks.
+const LOG_LIMIT_ERROR_PATTERNS = [
+  /query returned more than \d+ results/i,
+  /log response size exceeded/i,
+  /response size should not/i,
+  /block range (is )?too (large|wide)/i,
+  /exceed(s|ed)? (the )?max(imum)? block range/i,
+  /too many (results|logs|blocks)/i,
+];
+
+// Errors providers return when requests are throttled, regardless of the range queried.
+const RATE_LIMIT_ERROR_PATTERNS = [
+  /rate limit/i,
+  /request limit exceeded/i,
+  /too many requests/i,
+  /exceeded .*capacity/i,
+];
+
+/* The messages of `err` and of the JSON-RPC error or raw response ethers nests under it. */
+const getErrorText = (err: unknown): string => {
+  if (typeof err !== 'object' || err === null) {
+    return '';
+  }
+
+  // ethers nests the JSON-RPC error under `error` and the raw response under `body`.
+  const { message, error, body } = err as { message?: string; error?: Error; body?: string };
+  return [message, error?.message, body].filter(x => !!x).join(' ');
+};
+
+/* Whether `err` indicates the provider is throttling requests, the same range is retried later. */
+const isRateLimitError = (err: unknown): boolean => {
+  const text = getErrorText(err);
+  return (
+    (err as { status?: number } | null)?.status === 429 ||
+    RATE_LIMIT_ERROR_PATTERNS.some(pattern => pattern.test(text))
+  );
+};
+
+/* Whether `err` indicates the requested range should be split and retried. */
+export const isLogLimitError = (err: unknown): boolean => {
+  const text = getErrorText(err);
+  return !isRateLimitError(err) && LOG_LIMIT_ERROR_PATTERNS.some(pattern => pattern.test(text));
+};
+
+interface LogFilter {
+  address: string[];
+  topics: string[][];
+}
+
+type JsonRpcSender = providers.BaseProvider & {
+  send(method: string, params: Array<any>): Promise<any>;
+};
+
+const isJsonRpcSender = (provider: providers.BaseProvider): provider is JsonRpcSender =>
+  typeof (provider as Partial<JsonRpcSender>).send === 'function';
+
+/*
+ * Queries logs of any of `filter.address`. ethers only formats filters on a single address so the
+ * request is sent raw when the provider allows, otherwise one query is made per address.
+ */
+const queryLogs = async (
+  provider: providers.BaseProvider,
+  { address, topics }: LogFilter,
+  fromBlock: number,
+  toBlock: number
+): Promise<providers.Log[]> => {
+  if (isJsonRpcSender(provider)) {
+    const logs = await provider.send('eth_getLogs', [
+      { address, topics, fromBlock: utils.hexValue(fromBlock), toBlock: utils.hexValue(toBlock) },
+    ]);
+    return providers.Formatter.arrayOf(provider.formatter.filterLog.bind(provider.formatter))(logs);
+  }
+
+  const logs = await Promise.all(
+    address.map(contract => provider.getLogs({ address: contract, topics, fromBlock, toBlock }))
+  );
+  return logs.flat(1);
+};
+
+/*
+ * Fetches logs matching `filter` between `fromBlock` and `toBlock` (inclusive). Ranges rejected by the
+ * provider for exceeding its limits are split in half and retried, with the working window size
+ * remembered per provider for subsequent queries. Rate limited queries are retried with a backoff.
+ */
+const getLogs = async (
+  provider: providers.BaseProvider,
+  filter: LogFilter,
   {
     fromBlock,
     toBlock,
     logger,
-  }: { fromBlock: number | string; toBlock: number | string; logger: Logger }
-) => {
-  const nestedEvents = await Promise.all(
-    eventNames.map(async eventName => {
-      const pagination = getPaginatedFromAndTo(Number(fromBlock), Number(toBlock));
-      if (pagination.length > 1) {
-        // Only log this for when we're doing pagination
-        logger.info('Querying Infura for indexing', {
-          args: { pagination: pagination.length, eventName },
+    metrics,
+  }: { fromBlock: number; toBlock: number; logger: Logger; metrics?: Metrics }
+): Promise<providers.Log[]> => {
+  const window = getWindow(provider);
+  const totalBlocks = toBlock - fromBlock + 1;
+  const isBackfill = totalBlocks > window.size;
+  let fetchedBlocks = 0;
+  let lastReportedProgress = 0;
+
+  const reportProgress = (blocks: number) => {
+    fetchedBlocks += blocks;
+    const progress = Math.floor((fetchedBlocks / totalBlocks) * 100);
+
+    // Only report on long backfills and in 10% increments to avoid flooding logs.
+    if (!isBackfill || progress - lastReportedProgress < 10) {
+      return;
+    }
+    lastReportedProgress = progress;
+    logger.info('Querying logs for indexing', {
+      args: { progress: `${progress}%`, fetchedBlocks, totalBlocks, window: window.size },
+    });
+    metrics?.gauge(Metric.LOG_QUERY_PROGRESS, progress);
+  };
+
+  const getRange = async (from: number, to: number, attempt = 0): Promise<providers.Log[]> => {
+    try {
+      const logs = await queryLogs(provider, filter, from, to);
+
+      window.successes += 1;
+      if (window.successes >= WINDOW_GROWTH_THRESHOLD && window.size < MAX_BLOCKS) {
+        window.size = Math.min(window.size * 2, MAX_BLOCKS);
+        window.successes = 0;
+        metrics?.gauge(Metric.LOG_QUERY_WINDOW_SIZE, window.size);
+      }
+      reportProgress(to - from + 1);
+      return logs;
+    } catch (err) {
+      if (isRateLimitError(err) && attempt < MAX_RATE_LIMIT_RETRIES) {
+        const waitTime = RATE_LIMIT_BACKOFF * 2 ** attempt;
+        logger.warn('Log query rate limited, retrying', {
+          args: { fromBlock: from, toBlock: to, attempt, waitTime },
         });
+        await delay(waitTime);
+        return getRange(from, to, attempt + 1);
       }
 
-      const events = await Promise.all(
-        pagination.map(({ fromBlock, toBlock }) =>
-          contract.queryFilter(contract.filters[eventName](), fromBlock, toBlock)
-        )
-      );
-      return events.flat(1);
-    })
-  );
-  nestedEvents.forEach((singleFilterEvents, index) => {
-    if (singleFilterEvents.length > 4000) {
-      // At some point we'll have issues getting enough events.
-      logger.warn('Received events but will run into RPC limits at 10k', {
-        args: { n: singleFilterEvents.length, eventName: eventNames[index] },
+      const blocks = to - from + 1;
+      if (!isLogLimitError(err) || from === to) {
+        throw err;
+      }
+
+      window.size = Math.max(Math.min(window.size, Math.ceil(blocks / 2)), MIN_BLOCKS);
+      window.successes = 0;
+      logger.warn('Log query exceeded provider limits, splitting range', {
+        args: { fromBlock: from, toBlock: to, window: window.size },
       });
+      metrics?.count(Metric.LOG_QUERY_RANGE_SPLIT);
+      metrics?.gauge(Metric.LOG_QUERY_WINDOW_SIZE, window.size);
+
+      const mid = Math.floor((from + to) / 2);
+      const left = await getRange(from, mid);
+      const right = await getRange(mid + 1, to);
+      return left.concat(right);
     }
-  });
-  const events = nestedEvents.flat(1);
+  };
+
+  // Ranges are taken lazily so each request uses the latest known working window size.
+  let cursor = fromBlock;
+  const results: providers.Log[][] = [];
+  const worker = async () => {
+    while (cursor <= toBlock) {
+      const from = cursor;
+      const to = Math.min(from + window.size - 1, toBlock);
+      cursor = to + 1;
+      results.push(await getRange(from, to));
+    }
+  };
+  await Promise.all(range(MAX_CONCURRENT_REQUESTS).map(worker));
+
+  return results.flat(1);
+};
+
+/* Decorates a raw log with its decoded args, mirroring what `Contract.queryFilter` returns. */
+const toEvent = (
+  contract: Contract,
+  provider: providers.BaseProvider,
+  log: providers.Log
+): Event => {
+  const { name, signature, args, eventFragment } = contract.interface.parseLog(log);
+  return {
+    ...log,
+    event: name,
+    eventSignature: signature,
+    args,
+    decode: (data: string, topics?: string[]) =>
+      contract.interface.decodeEventLog(eventFragment, data, topics),
+    removeListener: () => undefined,
+    getBlock: () => provider.getBlock(log.blockHash),
+    getTransaction: () => provider.getTransaction(log.transactionHash),
+    getTransactionReceipt: () => provider.getTransactionReceipt(log.transactionHash),
+  };
+};
+
+/*
+ * Fetches `eventNames` for all `contracts` (which must share the same ABI) in a single `eth_getLogs`
+ * query per page rather than one query per contract and event.
+ */
+export const getEvents = async (
+  eventNames: PerpsEvent[],
+  contracts: Contract[],
+  provider: providers.BaseProvider,
+  {
+    fromBlock,
+    toBlock,
+    logger,
+    metrics,
+  }: { fromBlock: number; toBlock: number; logger: Logger; metrics?: Metrics }
+): Promise<Event[]> => {
+  if (!contracts.length || !eventNames.length) {
+    return [];
+  }
+
+  const contractsByAddress = keyBy(contracts, ({ address }) => address.toLowerCase());
+  const topics = [eventNames.map(eventName => contracts[0].interface.getEventTopic(eventName))];
+
+  const address = Object.keys(contractsByAddress);
+  const logs = await getLogs(
+    provider,
+    { address, topics },
+    { fromBlock, toBlock, logger, metrics }
+  );
+  // Narrowed again in case an endpoint ignored the address filter.
+  const events = logs
+    .filter(({ address }) => contractsByAddress[address.toLowerCase()])
+    .map(log => toEvent(contractsByAddress[log.address.toLowerCase()], provider, log));
+
   // sort by block, tx index, and log index, so that events are processed in order
   events.sort(
     (a, b) =>
@@ -65,3 +273,169 @@ export const getEvents = async (
 };
 
 export const UNIT = utils.parseUnits('1');
+
+// Market parameters used to compute the liquidation margin of a position.
+export interface LiquidationParams {
+  liquidationBufferRatio: number;
+  liquidationFeeRatio: number;
+  minKeeperFee: number;
+  maxKeeperFee: number;
+}
+
+// Funding entries referenced by open positions and the latest recompute (for unrecorded funding).
+export interface FundingState {
+  sequence: Record<number, number>;
+  latestIndex: number;
+  rate: number;
+  timestamp: number;
+}
+
+/* The keeper fee of liquidating a position of `notional` value, within the min and max keeper fees. */
+export const getLiquidationFee = (
+  notional: number,
+  { liquidationFeeRatio, minKeeperFee, maxKeeperFee }: LiquidationParams
+): number => Math.max(Math.min(notional * liquidationFeeRatio, maxKeeperFee), minKeeperFee);
+
+/*
+ * Computes the liquidation price of a position (before reconciliation) mirroring the market's
+ * approximate liquidation price: lastPrice + (liqMargin - margin) / size - netFundingPerUnit.
+ *
+ * Unrecorded funding (since the last recompute, until `blockTimestamp`) is approximated with the last
+ * recomputed rate. Returns `undefined` when the position's funding entry is unknown.
+ */
+export const modelLiquidationPrice = (
+  { size, margin, lastPrice, fundingIndex }: Position,
+  params: LiquidationParams,
+  { sequence, latestIndex, rate, timestamp }: FundingState,
+  assetPrice: number,
+  blockTimestamp: number
+): number | undefined => {
+  const fundingEntry = sequence[fundingIndex];
+  if (fundingEntry === undefined) {
+    return undefined;
+  }
+
+  const notional = Math.abs(size) * assetPrice;
+  const liquidationMargin =
+    notional * params.liquidationBufferRatio + getLiquidationFee(notional, params);
+
+  const elapsed = Math.max(0, blockTimestamp - timestamp);
+  const unrecordedFunding = -rate * (elapsed / 86400) * assetPrice;
+  const netFundingPerUnit = sequence[latestIndex] + unrecordedFunding - fundingEntry;
+
+  return lastPrice + (liquidationMargin - margin) / size - netFundingPerUnit;
+};
+
+const SerializedDelayedOrdersSchema = z.record(
+  z.object({
+    account: z.string(),
+    targetRoundId: z.string(),
+    executableAtTime: z.string(),
+    intentionTime: z.number(),
+    executionFailures: z.number(),
+    cancellationFailures: z.number().default(0),
+  })
+);
+
+/* Converts a delayed order index into a JSON friendly form (BigNumbers as decimal strings). */
+export const serializeDelayedOrders = (orders: Record<string, DelayedOrder>) =>
+  mapValues(orders, order => ({
+    ...order,
+    targetRoundId: order.targetRoundId.toString(),
+    executableAtTime: order.executableAtTime.toString(),
+  }));
+
+/* Inverse of `serializeDelayedOrders`. Throws if `data` is not a serialized delayed order index. */
+export const deserializeDelayedOrders = (data: unknown): Record<string, DelayedOrder> =>
+  mapValues(SerializedDelayedOrdersSchema.parse(data), order => ({
+    ...order,
+    targetRoundId: BigNumber.from(order.targetRoundId),
+    executableAtTime: BigNumber.from(order.executableAtTime),
+  }));
+
+/*
+ * Splits orders into those still pending on-chain and those already removed (executed or cancelled).
+ * All orders are read in the same tick so the reads are aggregated. Orders that fail to read are
+ * assumed pending.
+ */
+export const partitionPendingOrders = async (
+  orders: DelayedOrder[],
+  market: Contract,
+  multicall: Multicall
+): Promise<{ pending: DelayedOrder[]; removed: DelayedOrder[] }> => {
+  const sizeDeltas = await Promise.all(
+    orders.map(({ account }) =>
+      multicall
+        .call<OnchainDelayedOrder>(market, 'delayedOrders', account)
+        .then(({ sizeDelta }) => sizeDelta)
+        .catch(() => undefined)
+    )
+  );
+  return {
+    pending: orders.filter((_, i) => !sizeDeltas[i]?.isZero()),
+    removed: orders.filter((_, i) => !!sizeDeltas[i]?.isZero()),
+  };
+};
+
+/*
+ * Reconciles indexed delayed orders (and those of `accounts`, e.g. recently active) against on-chain
+ * state in place, adding missed orders, removing those no longer pending and fixing any that differ.
+ * Returns the number of corrections. Orders that fail to read are left untouched.
+ */
+export const reconcileDelayedOrders = async (
+  orders: Record<string, DelayedOrder>,
+  accounts: string[],
+  isOffchain: boolean,
+  market: Contract,
+  multicall: Multicall,
+  logger: Logger
+): Promise<number> => {
+  const candidates = uniq([...Object.keys(orders), ...accounts]);
+  const onchainOrders = await Promise.all(
+    candidates.map(account =>
+      multicall.call<OnchainDelayedOrder>(market, 'delayedOrders', account).catch(() => undefined)
+    )
+  );
+
+  let corrections = 0;
+  candidates.forEach((account, i) => {
+    const onchainOrder = onchainOrders[i];
+    if (!onchainOrder) {
+      return;
+    }
+
+    const order = orders[account];
+    const isPending = !onchainOrder.sizeDelta.isZero() && onchainOrder.isOffchain === isOffchain;
+    if (!isPending) {
+      if (order) {
+        logger.warn('Reconciled order no longer pending on-chain', { args: { account } });
+        delete orders[account];
+        corrections++;
+      }
+      return;
+    }
+
+    const { targetRoundId, executableAtTime, intentionTime } = onchainOrder;
+    if (
+      order &&
+      order.targetRoundId.eq(targetRoundId) &&
+      order.executableAtTime.eq(executableAtTime)
+    ) {
+      return;
+    }
+
+    logger.warn('Reconciled order differing from on-chain', {
+      args: { account, isIndexed: !!order },
+    });
+    orders[account] = {
+      account,
+      targetRoundId,
+      executableAtTime,
+      intentionTime: intentionTime.toNumber(),
+      executionFailures: order?.executionFailures ?? 0,
+      cancellationFailures: order?.cancellationFailures ?? 0,
+    };
+    corrections++;
+  });
+  return corrections;
+};
@@ -1,34 +1,53 @@
 import { TransactionResponse, TransactionReceipt } from '@ethersproject/providers';
 import { Contract, Event, providers } from 'ethers';
+import { sortBy } from 'lodash';
 import { Logger } from 'winston';
+import { KeeperTuning } from '../config';
+import { HealthCheck } from '../health';
 import { createLogger } from '../logging';
-import { Metrics } from '../metrics';
+import { Metric, Metrics } from '../metrics';
+import { Multicall } from '../multicall';
+import { NonceManager } from '../nonce';
 import { SignerPool } from '../signerpool';
-import { PerpsEvent } from '../typed';
+import { OrderOutcome, PerpsEvent } from '../typed';
+import { sendTG } from '../utils';
+import { simulate, SimulationFailure } from './simulation';
+
+// Number of most recent order latencies the p95 is measured over, and the minimum to alert on it.
+const ORDER_LATENCY_WINDOW = 100;
+const MIN_ORDER_LATENCY_SAMPLES = 20;
 
 export class Keeper {
   protected readonly logger: Logger;
 
   // Maximum number of transactions to execute in parallel per batch.
-  protected readonly MAX_BATCH_SIZE = 4;
+  protected readonly MAX_BATCH_SIZE: number;
 
   // Wait time between batches to process the next.
-  protected readonly BATCH_WAIT_TIME = 100;
+  protected readonly BATCH_WAIT_TIME: number;
 
   protected activeKeeperTasks: Record<string, boolean> = {};
   protected metricDimensions: Record<string, string> = {};
 
+  // Recent order latencies (ms) and whether their p95 is above the SLA, as of the last order.
+  private orderLatencies: number[] = [];
+  private isOrderLatencySlaBreached = false;
+
   readonly EVENTS_OF_INTEREST: PerpsEvent[] = [];
 
   constructor(
-    protected readonly name: string,
+    readonly name: string,
     protected readonly market: Contract,
     protected readonly baseAsset: string,
     protected readonly signerPool: SignerPool,
     protected readonly provider: providers.BaseProvider,
+    protected readonly multicall: Multicall,
     protected readonly metrics: Metrics,
-    protected readonly network: string
+    protected readonly network: string,
+    protected readonly tuning: KeeperTuning
   ) {
+    this.MAX_BATCH_SIZE = tuning.maxBatchSize;
+    this.BATCH_WAIT_TIME = tuning.batchWaitTime;
     this.metricDimensions.KeeperName = name;
 
     this.logger = createLogger(`${name} [${baseAsset}]`);
@@ -45,6 +64,37 @@ export class Keeper {
     throw new Error('NotImplementedError');
   }
 
+  /* Returns a JSON serializable copy of the keeper's index, used when persisting snapshots. */
+  serializeIndex(): unknown {
+    throw new Error('NotImplementedError');
+  }
+
+  /* Replaces the keeper's index with a previously serialized copy. Throws, without mutating, if invalid. */
+  restoreIndex(data: unknown): void {
+    throw new Error('NotImplementedError');
+  }
+
+  /*
+   * Checks the index of `accounts` (along with those already indexed) against on-chain state, correcting
+   * any drift such as missed events. Returns the number of corrections. Keepers without an account index
+   * have nothing to reconcile.
+   */
+  async reconcile(accounts: string[]): Promise<number> {
+    return 0;
+  }
+
+  /*
+   * Whether the keeper is live and ready to keep its market, e.g. it has signers to execute with.
+   * Keepers with their own failure modes add to this.
+   */
+  healthcheck(): HealthCheck {
+    const readiness: string[] = [];
+    if (!this.signerPool.size) {
+      readiness.push(`${this.name} signer pool '${this.signerPool.name}' is empty`);
+    }
+    return { liveness: [], readiness };
+  }
+
   protected async execAsyncKeeperCallback(id: string, cb: () => Promise<void>): Promise<void> {
     if (this.activeKeeperTasks[id]) {
       // Skip task as its already running.
@@ -61,8 +111,76 @@ export class Keeper {
     delete this.activeKeeperTasks[id];
   }
 
-  protected async waitTx(tx: TransactionResponse): Promise<TransactionReceipt> {
-    const receipt = await tx.wait(1);
+  /* Simulates an action with `callStatic` (before acquiring a signer), recording why it would revert. */
+  protected async simulateAction(
+    call: () => Promise<unknown>,
+    ctx: Record<string, string>
+  ): Promise<SimulationFailure | undefined> {
+    const failure = await simulate(call, this.market.interface);
+    if (failure) {
+      this.logger.info('Simulation reverted, not submitting transaction', {
+        args: { ...ctx, ...failure },
+      });
+      this.metrics.count(Metric.SIMULATION_REVERTED, {
+        ...this.metricDimensions,
+        Reason: failure.reason,
+      });
+    }
+    return failure;
+  }
+
+  /*
+   * Records the latency of an order from `since` (s) until the block `receipt` was mined in, alerting when
+   * the p95 of recent latencies breaches (or recovers from) the SLA. Failures are logged, never thrown.
+   */
+  protected async recordOrderLatency(
+    since: number,
+    receipt: TransactionReceipt,
+    outcome: OrderOutcome
+  ): Promise<void> {
+    try {
+      const { timestamp } = await this.provider.getBlock(receipt.blockNumber);
+      const latency = Math.max(timestamp - since, 0) * 1000;
+      this.metrics.time(Metric.ORDER_LATENCY, latency, {
+        ...this.metricDimensions,
+        Outcome: outcome,
+      });
+
+      this.orderLatencies.push(latency);
+      if (this.orderLatencies.length > ORDER_LATENCY_WINDOW) {
+        this.orderLatencies.shift();
+      }
+      if (this.orderLatencies.length < MIN_ORDER_LATENCY_SAMPLES) {
+        return;
+      }
+
+      const latencies = sortBy(this.orderLatencies);
+      const p95 = latencies[Math.ceil(latencies.length * 0.95) - 1];
+      this.metrics.gauge(Metric.ORDER_LATENCY_P95, p95, this.metricDimensions);
+
+      const sla = this.tuning.orderLatencySla * 1000;
+      const isBreached = p95 > sla;
+      if (isBreached !== this.isOrderLatencySlaBreached) {
+        this.isOrderLatencySlaBreached = isBreached;
+        const args = { p95, sla, samples: latencies.length };
+        if (isBreached) {
+          this.logger.warn('Order latency p95 above SLA', { args });
+          sendTG(`${this.name} [${this.baseAsset}], Order latency p95 ${p95}ms above SLA ${sla}ms`);
+        } else {
+          this.logger.info('Order latency p95 back within SLA', { args });
+          sendTG(`${this.name} [${this.baseAsset}], Order latency p95 back within SLA ${sla}ms`);
+        }
+      }
+    } catch (err) {
+      this.logger.error('Failed to record order latency', { args: { err } });
+    }
+  }
+
+  protected async waitTx(
+    tx: TransactionResponse,
+    signer: NonceManager
+  ): Promise<TransactionReceipt> {
+    const receipt = await this.signerPool.waitForTransaction(tx, signer);
     const { blockNumber, status, transactionHash, gasUsed } = receipt;
     this.logger.info('Transaction completed!', {
       args: { tx: transactionHash, blockNumber, status, gasUsed },
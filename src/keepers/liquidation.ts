@@ -1,13 +1,78 @@
 import { TransactionResponse } from '@ethersproject/abstract-provider';
 import { wei } from '@rout-horizon/wei';
 import { BigNumber, Contract, Event, providers, utils } from 'ethers';
-import { chunk, flatten } from 'lodash';
+import { chunk, mapValues, pickBy, uniq } from 'lodash';
+import { z } from 'zod';
 import { Keeper } from '.';
-import { UNIT } from './helpers';
-import { PerpsEvent, Position } from '../typed';
+import { FundingState, LiquidationParams, modelLiquidationPrice, UNIT } from './helpers';
+import { LiquidationPolicy, OnchainPosition, PerpsEvent, Position, SignerPriority } from '../typed';
 import { Metric, Metrics } from '../metrics';
+import { Multicall } from '../multicall';
 import { delay, sendTG } from '../utils';
 import { SignerPool } from '../signerpool';
+import { KeeperTuning } from '../config';
+import { HealthCheck } from '../health';
+import { GasEstimator } from '../gas';
+
+const SerializedPositionIndexSchema = z.object({
+  blockTipTimestamp: z.number(),
+  funding: z.object({
+    sequence: z.record(z.number()),
+    latestIndex: z.number(),
+    rate: z.number(),
+    timestamp: z.number(),
+  }),
+  positions: z.record(
+    z.object({
+      id: z.string(),
+      event: z.string(),
+      account: z.string(),
+      size: z.number(),
+      leverage: z.number(),
+      margin: z.number(),
+      lastPrice: z.number(),
+      fundingIndex: z.number(),
+      liqPrice: z.number(),
+      liqPriceOffset: z.number(),
+      liqPriceUpdatedTimestamp: z.number(),
+    })
+  ),
+});
+
+const toNumber = (value: BigNumber): number => parseFloat(utils.formatUnits(value));
+
+interface PositionFields {
+  id: string; // A BigNumber when read on-chain, see `serializeIndex`.
+  size: BigNumber;
+  margin: BigNumber;
+  lastPrice: BigNumber;
+  fundingIndex: BigNumber;
+}
+
+/* Builds an indexed position from its on-chain fields (i.e. `PositionModified` args or `positions`). */
+const toPosition = (
+  account: string,
+  { id, size, margin, lastPrice, fundingIndex }: PositionFields
+): Position => ({
+  id,
+  event: PerpsEvent.PositionModified,
+  account,
+  size: wei(size)
+    .div(UNIT)
+    .toNumber(),
+  leverage: wei(size)
+    .abs()
+    .mul(lastPrice)
+    .div(margin)
+    .div(UNIT)
+    .toNumber(),
+  margin: toNumber(margin),
+  lastPrice: toNumber(lastPrice),
+  fundingIndex: fundingIndex.toNumber(),
+  liqPrice: -1, // will be updated by keeper routine
+  liqPriceOffset: 0,
+  liqPriceUpdatedTimestamp: 0,
+});
 
 export class LiquidationKeeper extends Keeper {
   // Required for sorting position by proximity of liquidation price to current price
@@ -15,8 +80,21 @@ export class LiquidationKeeper extends Keeper {
 
   // The index
   private positions: Record<string, Position> = {};
+  private funding: FundingState = { sequence: {}, latestIndex: -1, rate: 0, timestamp: 0 };
   private blockTipTimestamp: number = 0;
 
+  private liquidationParams?: LiquidationParams;
+  private liquidationParamsUpdatedTimestamp = 0;
+
+  // Accounts with a deferred (unprofitable) liquidation and the block timestamp to defer until.
+  private deferredLiquidations: Record<string, number> = {};
+
+  // Block timestamp every position was last checked on-chain, regardless of its estimate.
+  private lastSweepTimestamp = 0;
+
+  // Interval between refreshing the market's liquidation parameters.
+  private readonly LIQUIDATION_PARAMS_REFRESH_INTERVAL = 60 * 60; // 1hr (in seconds).
+
   readonly EVENTS_OF_INTEREST: PerpsEvent[] = [
     PerpsEvent.FundingRecomputed,
     PerpsEvent.PositionLiquidated,
@@ -25,13 +103,135 @@ export class LiquidationKeeper extends Keeper {
 
   constructor(
     market: Contract,
+    private readonly marketSettings: Contract,
+    private readonly marketKey: string,
+    private readonly gasEstimator: GasEstimator,
     baseAsset: string,
     signerPool: SignerPool,
     provider: providers.BaseProvider,
+    multicall: Multicall,
     metrics: Metrics,
-    network: string
+    network: string,
+    tuning: KeeperTuning
   ) {
-    super('LiquidationKeeper', market, baseAsset, signerPool, provider, metrics, network);
+    super(
+      'LiquidationKeeper',
+      market,
+      baseAsset,
+      signerPool,
+      provider,
+      multicall,
+      metrics,
+      network,
+      tuning
+    );
+    this.metricDimensions.MarketKey = marketKey;
+  }
+
+  serializeIndex(): unknown {
+    return {
+      blockTipTimestamp: this.blockTipTimestamp,
+      funding: { ...this.funding, sequence: { ...this.funding.sequence } },
+      // `id` is a BigNumber when indexed from events.
+      positions: mapValues(this.positions, position => ({
+        ...position,
+        id: position.id.toString(),
+      })),
+    };
+  }
+
+  restoreIndex(data: unknown): void {
+    const { blockTipTimestamp, funding, positions } = SerializedPositionIndexSchema.parse(data);
+    this.blockTipTimestamp = blockTipTimestamp;
+    this.funding = funding;
+    this.positions = positions;
+  }
+
+  async reconcile(accounts: string[]): Promise<number> {
+    const candidates = uniq([...Object.keys(this.positions), ...accounts]);
+    const onchainPositions = await Promise.all(
+      candidates.map(account =>
+        this.multicall
+          .call<OnchainPosition>(this.market, 'positions', account)
+          .catch(() => undefined)
+      )
+    );
+
+    let corrections = 0;
+    candidates.forEach((account, i) => {
+      const onchainPosition = onchainPositions[i];
+      if (!onchainPosition) {
+        return;
+      }
+
+      const indexed = this.positions[account];
+      const { id, size, margin, lastPrice, lastFundingIndex } = onchainPosition;
+      if (margin.isZero()) {
+        if (indexed) {
+          this.logger.warn('Reconciled position closed on-chain', { args: { account } });
+          delete this.positions[account];
+          delete this.deferredLiquidations[account];
+          corrections++;
+        }
+        return;
+      }
+
+      const position = toPosition(account, {
+        id: id.toString(),
+        size,
+        margin,
+        lastPrice,
+        fundingIndex: lastFundingIndex,
+      });
+      if (
+        indexed &&
+        indexed.size === position.size &&
+        indexed.margin === position.margin &&
+        indexed.lastPrice === position.lastPrice &&
+        indexed.fundingIndex === position.fundingIndex
+      ) {
+        return;
+      }
+
+      this.logger.warn('Reconciled position differing from on-chain', {
+        args: { account, isIndexed: !!indexed },
+      });
+      this.positions[account] = position;
+      delete this.deferredLiquidations[account];
+      corrections++;
+    });
+
+    // Funding entries of positions missed entirely may predate the index.
+    const missingFundingIndexes = uniq(
+      Object.values(this.positions)
+        .map(({ fundingIndex }) => fundingIndex)
+        .filter(index => this.funding.sequence[index] === undefined)
+    );
+    await Promise.all(
+      missingFundingIndexes.map(async index => {
+        try {
+          const funding = await this.multicall.call<BigNumber>(
+            this.market,
+            'fundingSequence',
+            index
+          );
+          this.funding.sequence[index] = toNumber(funding);
+        } catch (err) {
+          this.logger.warn('Failed to fetch funding entry', { args: { index, err } });
+        }
+      })
+    );
+    this.pruneFundingSequence();
+    return corrections;
+  }
+
+  /* Positions cannot be checked for liquidation until the asset price is known. */
+  healthcheck(): HealthCheck {
+    const { liveness, readiness } = super.healthcheck();
+    if (!this.assetPrice) {
+      readiness.push(`${this.name} asset price is unknown`);
+    }
+    return { liveness, readiness };
   }
 
   async updateIndex(events: Event[], block?: providers.Block, assetPrice?: number): Promise<void> {
@@ -60,35 +260,35 @@ export class LiquidationKeeper extends Keeper {
           // keeping track of time is needed for the volume metrics during the initial
           // sync so that we don't have to await getting block timestamp for each new block
           this.blockTipTimestamp = args.timestamp.toNumber();
+
+          // Events are ordered, the last recompute is always the latest funding entry.
+          const index = args.index.toNumber();
+          this.funding.sequence[index] = toNumber(args.funding);
+          this.funding.latestIndex = index;
+          this.funding.rate = toNumber(args.fundingRate);
+          this.funding.timestamp = this.blockTipTimestamp;
           return;
         }
         case PerpsEvent.PositionModified: {
-          const { id, account, size, margin, lastPrice } = args;
+          const { id, account, size, margin, lastPrice, fundingIndex } = args;
+          delete this.deferredLiquidations[account];
           if (margin.eq(BigNumber.from(0))) {
             // Position has been closed.
             delete this.positions[account];
             return;
           }
-          this.positions[account] = {
+          this.positions[account] = toPosition(account, {
             id,
-            event,
-            account,
-            size: wei(size)
-              .div(UNIT)
-              .toNumber(),
-            leverage: wei(size)
-              .abs()
-              .mul(lastPrice)
-              .div(margin)
-              .div(UNIT)
-              .toNumber(),
-            liqPrice: -1, // will be updated by keeper routine
-            liqPriceUpdatedTimestamp: 0,
-          };
+            size,
+            margin,
+            lastPrice,
+            fundingIndex,
+          });
           return;
         }
         case PerpsEvent.PositionLiquidated: {
           delete this.positions[args.account];
+          delete this.deferredLiquidations[args.account];
           return;
         }
         default:
@@ -97,30 +297,118 @@ export class LiquidationKeeper extends Keeper {
           });
       }
     });
+    this.pruneFundingSequence();
+  }
+
+  /* Drops funding entries no longer referenced by an open position (keeping the latest). */
+  private pruneFundingSequence(): void {
+    const referenced = new Set(Object.values(this.positions).map(p => p.fundingIndex));
+    referenced.add(this.funding.latestIndex);
+    this.funding.sequence = pickBy(this.funding.sequence, (_, index) =>
+      referenced.has(Number(index))
+    );
+  }
+
+  private async refreshLiquidationParams(): Promise<void> {
+    this.liquidationParamsUpdatedTimestamp = this.blockTipTimestamp;
+    try {
+      const [
+        liquidationBufferRatio,
+        liquidationFeeRatio,
+        minKeeperFee,
+        maxKeeperFee,
+      ] = await Promise.all([
+        this.multicall.call<BigNumber>(
+          this.marketSettings,
+          'liquidationBufferRatio',
+          utils.formatBytes32String(this.marketKey)
+        ),
+        this.multicall.call<BigNumber>(this.marketSettings, 'liquidationFeeRatio'),
+        this.multicall.call<BigNumber>(this.marketSettings, 'minKeeperFee'),
+        this.multicall.call<BigNumber>(this.marketSettings, 'maxKeeperFee'),
+      ]);
+      this.liquidationParams = {
+        liquidationBufferRatio: toNumber(liquidationBufferRatio),
+        liquidationFeeRatio: toNumber(liquidationFeeRatio),
+        minKeeperFee: toNumber(minKeeperFee),
+        maxKeeperFee: toNumber(maxKeeperFee),
+      };
+      this.logger.info('Found liquidation params', { args: this.liquidationParams });
+    } catch (err) {
+      // Without params, estimates fall back to the last on-chain liquidation price.
+      this.logger.warn('Failed to fetch liquidation params', { args: { err } });
+    }
+  }
+
+  /* Models the liquidation price of a position, drift is corrected on reconciliation. */
+  private modelLiquidationPrice(position: Position): number | undefined {
+    if (!this.liquidationParams || !this.assetPrice) {
+      return undefined;
+    }
+    return modelLiquidationPrice(
+      position,
+      this.liquidationParams,
+      this.funding,
+      this.assetPrice,
+      this.blockTipTimestamp
+    );
+  }
+
+  /* Estimated liquidation price, falling back to the last on-chain liquidation price (-1 if unknown). */
+  private estimateLiquidationPrice(position: Position): number {
+    const modelled = this.modelLiquidationPrice(position);
+    return modelled === undefined
+      ? position.liqPrice
+      : Math.max(0, modelled + position.liqPriceOffset);
+  }
+
+  /* Fetches the on-chain liquidation price, recording the model's drift to correct future estimates. */
+  private async reconcileLiquidationPrice(account: string): Promise<void> {
+    const { price } = await this.multicall.call<{ price: BigNumber }>(
+      this.market,
+      'liquidationPrice',
+      account
+    );
+    const liqPrice = toNumber(price);
+    const position = this.positions[account];
+    if (!position) {
+      return;
+    }
+
+    const modelled = this.modelLiquidationPrice(position);
+    position.liqPrice = liqPrice;
+    position.liqPriceOffset = modelled === undefined ? 0 : liqPrice - modelled;
+    position.liqPriceUpdatedTimestamp = this.blockTipTimestamp;
+    this.logger.info('Reconciled liquidation price', {
+      args: { account, liqPrice, drift: position.liqPriceOffset },
+    });
   }
 
   private liquidationGroups(
     posArr: Position[],
-    priceProximityThreshold = 0.05,
-    maxFarPricesToUpdate = 1, // max number of older liquidation prices to update
-    farPriceRecencyCutoff = 6 * 3600 // interval during which the liquidation price is considered up to date if it's far
+    priceProximityThreshold = this.tuning.priceProximityThreshold,
+    maxFarPricesToUpdate = this.tuning.maxFarPricesToUpdate, // max number of far liquidation prices to reconcile
+    farPriceRecencyCutoff = this.tuning.farPriceRecencyCutoff // interval during which the liquidation price is considered up to date if it's far
   ) {
+    const estimates = new Map(posArr.map(p => [p.account, this.estimateLiquidationPrice(p)]));
+    const proximity = (p: Position) => Math.abs(estimates.get(p.account)! - this.assetPrice);
+
     // group
-    const knownLiqPrice = posArr.filter(p => p.liqPrice !== -1);
-    const unknownLiqPrice = posArr.filter(p => p.liqPrice === -1);
+    const knownLiqPrice = posArr.filter(p => estimates.get(p.account) !== -1);
+    const unknownLiqPrice = posArr.filter(p => estimates.get(p.account) === -1);
 
     const liqPriceClose = knownLiqPrice.filter(
-      p => Math.abs(p.liqPrice - this.assetPrice) / this.assetPrice <= priceProximityThreshold
+      p => proximity(p) / this.assetPrice <= priceProximityThreshold
     );
     const liqPriceFar = knownLiqPrice.filter(
-      p => Math.abs(p.liqPrice - this.assetPrice) / this.assetPrice > priceProximityThreshold
+      p => proximity(p) / this.assetPrice > priceProximityThreshold
     );
 
     // sort close prices by liquidation price and leverage
     liqPriceClose.sort(
       (p1, p2) =>
         // sort by ascending proximity of liquidation price to current price
-        Math.abs(p1.liqPrice - this.assetPrice) - Math.abs(p2.liqPrice - this.assetPrice) ||
+        proximity(p1) - proximity(p2) ||
         // if liq price is the same, sort by descending leverage (which should be different)
         p2.leverage - p1.leverage // desc)
     );
@@ -132,28 +420,88 @@ export class LiquidationKeeper extends Keeper {
       p => p.liqPriceUpdatedTimestamp < this.blockTipTimestamp - farPriceRecencyCutoff
     );
     // sort far liquidation prices by how out of date they are
-    // this should constantly update old positions' liq price
+    // this should constantly reconcile old positions' estimates
     outdatedLiqPrices.sort((p1, p2) => p1.liqPriceUpdatedTimestamp - p2.liqPriceUpdatedTimestamp); //asc
 
-    // first known close prices, then unknown prices yet
-    return [
-      liqPriceClose, // all close prices within threshold
+    return {
+      liqPriceClose, // all close (estimated) prices within threshold
       unknownLiqPrice, // all unknown liq prices (to get them updated)
-      outdatedLiqPrices.slice(0, maxFarPricesToUpdate), // some max number of of outdated prices to reduce spamming the node and prevent self DOS when there are many positions
-    ];
+      outdatedLiqPrices: outdatedLiqPrices.slice(0, maxFarPricesToUpdate), // some max number of of outdated prices to reduce spamming the node and prevent self DOS when there are many positions
+    };
   }
 
-  private async liquidatePosition(account: string) {
-    const canLiquidateOrder = await this.market.canLiquidate(account);
-    if (!canLiquidateOrder) {
-      // if it's not liquidatable update it's liquidation price
-      this.positions[account].liqPrice = parseFloat(
-        utils.formatUnits((await this.market.liquidationPrice(account)).price)
-      );
-      this.positions[account].liqPriceUpdatedTimestamp = this.blockTipTimestamp;
-      this.logger.info('Cannot liquidate position', {
-        args: { account, liqPrice: this.positions[account].liqPrice },
+  /* Whether the position can be liquidated on-chain, `undefined` if the check failed. */
+  private async canLiquidate(account: string): Promise<boolean | undefined> {
+    try {
+      return await this.multicall.call<boolean>(this.market, 'canLiquidate', account);
+    } catch (err) {
+      this.logger.error('Failed to check if position can be liquidated', {
+        args: { account, err },
       });
+      return undefined;
+    }
+  }
+
+  /*
+   * Whether the keeper fee of liquidating the position covers its (L2 execution + L1 data) cost. A
+   * liquidation whose cost cannot be estimated is assumed profitable, as missing a liquidation costs
+   * more than overpaying for gas.
+   */
+  private async isLiquidationProfitable({ account, size }: Position): Promise<boolean> {
+    const notional = Math.abs(size) * this.assetPrice;
+    const { alwaysLiquidateAboveNotional } = this.tuning;
+    if (alwaysLiquidateAboveNotional !== undefined && notional >= alwaysLiquidateAboveNotional) {
+      return true;
+    }
+
+    try {
+      const [fee, cost] = await Promise.all([
+        this.multicall.call<BigNumber>(this.market, 'liquidationFee', account),
+        this.market.populateTransaction
+          .liquidatePosition(account)
+          .then(tx => this.gasEstimator.estimate(tx)),
+      ]);
+      const reward = toNumber(fee);
+      this.logger.info('Estimated liquidation profitability', {
+        args: { account, notional, reward, cost: cost.totalUsd },
+      });
+      return reward >= cost.totalUsd;
+    } catch (err) {
+      this.logger.warn('Failed to estimate liquidation profitability', { args: { account, err } });
+      this.metrics.count(Metric.LIQUIDATION_ESTIMATE_FAILED, this.metricDimensions);
+      return true;
+    }
+  }
+
+  /* Applies the configured policy to unprofitable liquidations, returning positions to liquidate. */
+  private async filterProfitableLiquidations(positions: Position[]): Promise<Position[]> {
+    const { unprofitableLiquidationPolicy: policy, liquidationDeferInterval } = this.tuning;
+    if (policy === LiquidationPolicy.EXECUTE || !positions.length) {
+      return positions;
+    }
+
+    const isProfitable = await Promise.all(positions.map(p => this.isLiquidationProfitable(p)));
+    return positions.filter(({ account }, i) => {
+      if (isProfitable[i]) {
+        return true;
+      }
+      if (policy === LiquidationPolicy.DEFER) {
+        this.deferredLiquidations[account] = this.blockTipTimestamp + liquidationDeferInterval;
+      }
+      this.logger.info('Liquidation unprofitable, not executing', { args: { account, policy } });
+      this.metrics.count(Metric.LIQUIDATION_SKIPPED, this.metricDimensions);
+      return false;
+    });
+  }
+
+  private async liquidatePosition(account: string) {
+    // Avoid spending gas and signer time on liquidations that are certain to revert, they are
+    // checked again (or their liquidation price reconciled) on the next execution.
+    const failure = await this.simulateAction(
+      () => this.market.callStatic.liquidatePosition(account),
+      { account }
+    );
+    if (failure) {
       return;
     }
 
@@ -168,10 +516,10 @@ export class LiquidationKeeper extends Keeper {
             args: { account, nonce: tx.nonce },
           });
           
-          const receipt = await this.waitTx(tx);
+          const receipt = await this.waitTx(tx, signer);
           sendTG(`Liquidation-Order, User ${this.positions[account].account}, position liquidated succeeded. ${receipt.transactionHash}`);
         },
-        { asset: this.baseAsset }
+        { asset: this.baseAsset, priority: SignerPriority.LIQUIDATION }
         );
         this.metrics.count(Metric.POSITION_LIQUIDATED, this.metricDimensions);
       } catch (err) {
@@ -182,14 +530,47 @@ export class LiquidationKeeper extends Keeper {
     }
   }
 
+  private async runBatches(positions: Position[], cb: (account: string) => Promise<void>) {
+    // Batch the groups to maintain internal order within groups
+    for (const batch of chunk(positions, this.MAX_BATCH_SIZE)) {
+      this.logger.info(`Running keeper batch with '${batch.length}' position(s) to keep`);
+      const batches = batch.map(({ id, account }) =>
+        this.execAsyncKeeperCallback(id, () => cb(account))
+      );
+      await Promise.all(batches);
+      await delay(this.BATCH_WAIT_TIME);
+    }
+  }
+
   async execute(): Promise<void> {
     try {
+      if (
+        this.blockTipTimestamp - this.liquidationParamsUpdatedTimestamp >=
+        this.LIQUIDATION_PARAMS_REFRESH_INTERVAL
+      ) {
+        await this.refreshLiquidationParams();
+      }
+
       // Grab all open positions.
       const openPositions = Object.values(this.positions).filter(p => Math.abs(p.size) > 0);
 
       // Order the position in groups of priority that shouldn't be mixed in same batches
-      const positionGroups = this.liquidationGroups(openPositions);
-      const positionCount = flatten(positionGroups).length;
+      const { liqPriceClose, unknownLiqPrice, outdatedLiqPrices } = this.liquidationGroups(
+        openPositions
+      );
+      const nearPositions = [...liqPriceClose, ...unknownLiqPrice];
+
+      // Every position is periodically checked on-chain too, in case far estimates are wrong (e.g.
+      // stale funding or changed liquidation parameters). Near positions are still checked first.
+      const isSweep =
+        this.blockTipTimestamp - this.lastSweepTimestamp >= this.tuning.liquidationSweepInterval;
+      const checkedPositions = isSweep
+        ? [...nearPositions, ...openPositions.filter(p => !nearPositions.includes(p))]
+        : nearPositions;
+      if (isSweep) {
+        this.lastSweepTimestamp = this.blockTipTimestamp;
+      }
+      const positionCount = checkedPositions.length + outdatedLiqPrices.length;
 
       // No positions. Move on.
       if (positionCount === 0) {
@@ -198,21 +579,35 @@ export class LiquidationKeeper extends Keeper {
       }
 
       this.logger.info(`Found ${positionCount}/${openPositions.length} open position(s) to check`);
-      for (let group of positionGroups) {
-        if (!group.length) {
-          continue;
-        }
 
-        // Batch the groups to maintain internal order within groups
-        for (const batch of chunk(group, this.MAX_BATCH_SIZE)) {
-          this.logger.info(`Running keeper batch with '${batch.length}' position(s) to keep`);
-          const batches = batch.map(({ id, account }) =>
-            this.execAsyncKeeperCallback(id, () => this.liquidatePosition(account))
-          );
-          await Promise.all(batches);
-          await delay(this.BATCH_WAIT_TIME);
-        }
-      }
+      // Otherwise only positions estimated to be close (or unknown) are checked on-chain for
+      // liquidation, far positions are reconciled periodically to correct drift in their estimated
+      // liquidation price.
+      //
+      // All checks are made in the same tick so they're aggregated into as few calls as possible.
+      const isDeferred = ({ account }: Position) =>
+        (this.deferredLiquidations[account] ?? 0) > this.blockTipTimestamp;
+      const candidates = checkedPositions.filter(p => !isDeferred(p));
+      const canLiquidate = await Promise.all(
+        candidates.map(({ account }) => this.canLiquidate(account))
+      );
+      const liquidatable = candidates.filter((_, i) => canLiquidate[i] === true);
+
+      // if a near position is not liquidatable reconcile it's liquidation price
+      const reconcilable = candidates
+        .filter((p, i) => canLiquidate[i] === false && nearPositions.includes(p))
+        .concat(outdatedLiqPrices.filter(p => !liquidatable.includes(p)));
+
+      this.logger.info('Checked position(s) on-chain', {
+        args: { liquidatable: liquidatable.length, reconcilable: reconcilable.length, isSweep },
+      });
+      const profitable = await this.filterProfitableLiquidations(liquidatable);
+      await this.runBatches(profitable, account => this.liquidatePosition(account));
+      await Promise.all(
+        reconcilable.map(({ id, account }) =>
+          this.execAsyncKeeperCallback(id, () => this.reconcileLiquidationPrice(account))
+        )
+      );
     } catch (err) {
       this.logger.error('Failed to execute liquidations', { args: { err } });
       this.logger.error((err as Error).stack);
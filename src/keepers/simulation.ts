@@ -0,0 +1,138 @@
+import { utils } from 'ethers';
+
+// Custom errors bubbled up from Pyth when market calls update off-chain prices (missing from the ABI).
+//
+// @see: https://github.com/pyth-network/pyth-sdk-solidity/blob/main/PythErrors.sol
+const PYTH_ERRORS = new utils.Interface([
+  'error InsufficientFee()',
+  'error PriceFeedNotFound()',
+  'error StalePrice()',
+  'error InvalidUpdateData()',
+]);
+
+const ERROR_STRING_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+export enum RevertReason {
+  ORDER_NOT_FOUND = 'OrderNotFound',
+  ORDER_NOT_READY = 'OrderNotReady',
+  ORDER_EXPIRED = 'OrderExpired',
+  STALE_PRICE = 'StalePrice',
+  PRICE_TOO_VOLATILE = 'PriceTooVolatile',
+  MARKET_SUSPENDED = 'MarketSuspended',
+  CANNOT_LIQUIDATE = 'CannotLiquidate',
+  INSUFFICIENT_FEE = 'InsufficientFee',
+  NOT_PERMITTED = 'NotPermitted',
+  UNKNOWN = 'Unknown',
+}
+
+// What a keeper should do with an item whose action would revert.
+export enum RevertAction {
+  RETRY = 'retry', // Try again next execution, counting towards max attempts.
+  WAIT = 'wait', // Try again later, not counting towards max attempts.
+  DROP = 'drop', // Stop tracking, the action can never succeed.
+}
+
+// Matched against the decoded revert message in order, the first match wins.
+const REVERT_REASON_PATTERNS: [RegExp, RevertReason][] = [
+  [/no previous order|order (does not|doesn't) exist|no order/i, RevertReason.ORDER_NOT_FOUND],
+  [/too early|not reached|not ready/i, RevertReason.ORDER_NOT_READY],
+  [/too late|expired/i, RevertReason.ORDER_EXPIRED],
+  [/stale|recent enough|invalid price|price.*(outdated|too old)/i, RevertReason.STALE_PRICE],
+  [/volatil|divergence|deviat/i, RevertReason.PRICE_TOO_VOLATILE],
+  [/suspended|paused/i, RevertReason.MARKET_SUSPENDED],
+  [/cannot be liquidated/i, RevertReason.CANNOT_LIQUIDATE],
+  [/insufficient ?fee/i, RevertReason.INSUFFICIENT_FEE],
+  [/not ?permitted/i, RevertReason.NOT_PERMITTED],
+];
+
+const REVERT_ACTIONS: Record<RevertReason, RevertAction> = {
+  [RevertReason.ORDER_NOT_FOUND]: RevertAction.DROP,
+  [RevertReason.ORDER_NOT_READY]: RevertAction.WAIT,
+  [RevertReason.ORDER_EXPIRED]: RevertAction.DROP,
+  [RevertReason.STALE_PRICE]: RevertAction.RETRY,
+  [RevertReason.PRICE_TOO_VOLATILE]: RevertAction.WAIT,
+  [RevertReason.MARKET_SUSPENDED]: RevertAction.WAIT,
+  [RevertReason.CANNOT_LIQUIDATE]: RevertAction.DROP,
+  [RevertReason.INSUFFICIENT_FEE]: RevertAction.RETRY,
+  [RevertReason.NOT_PERMITTED]: RevertAction.DROP,
+  [RevertReason.UNKNOWN]: RevertAction.RETRY,
+};
+
+export interface SimulationFailure {
+  reason: RevertReason;
+  action: RevertAction;
+  message: string;
+}
+
+/* Finds revert data in (possibly nested, e.g. by the FallbackProvider) provider errors. */
+const findRevertData = (err: unknown, depth = 0): string | undefined => {
+  if (typeof err !== 'object' || err === null || depth > 4) {
+    return undefined;
+  }
+  const { data, error } = err as { data?: unknown; error?: unknown };
+  if (typeof data === 'string' && utils.isHexString(data) && data.length >= 10) {
+    return data;
+  }
+  return findRevertData(error, depth + 1) ?? findRevertData(data, depth + 1);
+};
+
+/* Decodes revert data into a human readable message, trying the contract's ABI first. */
+const decodeRevertData = (data: string, iface: utils.Interface): string | undefined => {
+  const selector = utils.hexDataSlice(data, 0, 4);
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      return utils.defaultAbiCoder.decode(['string'], utils.hexDataSlice(data, 4))[0];
+    }
+    if (selector === PANIC_SELECTOR) {
+      return `panic (${utils.defaultAbiCoder.decode(['uint256'], utils.hexDataSlice(data, 4))[0]})`;
+    }
+  } catch (err) {
+    return undefined;
+  }
+  for (const errors of [iface, PYTH_ERRORS]) {
+    try {
+      return errors.parseError(data).name;
+    } catch (err) {
+      // Not an error defined in this ABI.
+    }
+  }
+  return undefined;
+};
+
+/* Whether `err` is the result of the call reverting, as opposed to e.g. a network error. */
+const isRevert = (err: unknown): boolean =>
+  (typeof err === 'object' &&
+    err !== null &&
+    (err as { code?: unknown }).code === utils.Logger.errors.CALL_EXCEPTION) ||
+  findRevertData(err) !== undefined;
+
+/*
+ * Simulates a keeper action (e.g. `market.callStatic.executeDelayedOrder(account)`) returning the
+ * decoded reason and suggested action if it would revert, or `undefined` if it would succeed. Errors
+ * unrelated to the call reverting (e.g. network) are rethrown.
+ */
+export const simulate = async (
+  call: () => Promise<unknown>,
+  iface: utils.Interface
+): Promise<SimulationFailure | undefined> => {
+  try {
+    await call();
+    return undefined;
+  } catch (err) {
+    if (!isRevert(err)) {
+      throw err;
+    }
+
+    const data = findRevertData(err);
+    const message =
+      (data && decodeRevertData(data, iface)) ||
+      (err as { reason?: string }).reason ||
+      (err as Error).message ||
+      'execution reverted';
+    const reason =
+      REVERT_REASON_PATTERNS.find(([pattern]) => pattern.test(message))?.[1] ??
+      RevertReason.UNKNOWN;
+    return { reason, action: REVERT_ACTIONS[reason], message };
+  }
+};
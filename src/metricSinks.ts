@@ -0,0 +1,226 @@
+import {
+  CloudWatchClient,
+  MetricDatum as CloudWatchDatum,
+  PutMetricDataCommand,
+  StandardUnit,
+} from '@aws-sdk/client-cloudwatch';
+import { createServer, Server } from 'http';
+import { snakeCase } from 'lodash';
+import winston from 'winston';
+import { delay } from './utils';
+
+export enum MetricType {
+  COUNTER = 'counter',
+  GAUGE = 'gauge',
+  HISTOGRAM = 'histogram',
+}
+
+export interface MetricDatum {
+  name: string;
+  value: number;
+  type: MetricType;
+  dimensions: Record<string, string>;
+  timestamp: Date;
+}
+
+/* A destination for metrics, e.g. a monitoring service to push to or an endpoint to be scraped. */
+export interface MetricsSink {
+  put(datum: MetricDatum): void;
+  flush?(): Promise<void>;
+}
+
+/*
+ * Buffers data points, sending them to CloudWatch in batches (of at most 1000, the `PutMetricData`
+ * limit) every `flushInterval` ms. Batches failing to send are dropped.
+ */
+export class CloudWatchSink implements MetricsSink {
+  private readonly MAX_BATCH_SIZE = 1000;
+  private readonly DEFAULT_RESOLUTION = 60; // 60s
+
+  private buffer: MetricDatum[] = [];
+
+  constructor(
+    private readonly client: CloudWatchClient,
+    private readonly namespace: string,
+    private readonly flushInterval: number,
+    private readonly logger: winston.Logger
+  ) {}
+
+  private toCloudWatchDatum({
+    name,
+    value,
+    type,
+    dimensions,
+    timestamp,
+  }: MetricDatum): CloudWatchDatum {
+    return {
+      MetricName: name,
+      Dimensions: Object.entries(dimensions).map(([Name, Value]) => ({ Name, Value })),
+      Value: value,
+      Timestamp: timestamp,
+      StorageResolution: this.DEFAULT_RESOLUTION,
+      Unit: type === MetricType.HISTOGRAM ? StandardUnit.Milliseconds : StandardUnit.Count,
+    };
+  }
+
+  put(datum: MetricDatum): void {
+    this.buffer.push(datum);
+    // A full batch is sent right away rather than waiting for the next interval.
+    if (this.buffer.length >= this.MAX_BATCH_SIZE) {
+      this.flush();
+    }
+  }
+
+  async flush(): Promise<void> {
+    while (this.buffer.length) {
+      const batch = this.buffer.splice(0, this.MAX_BATCH_SIZE);
+      try {
+        await this.client.send(
+          new PutMetricDataCommand({
+            Namespace: this.namespace,
+            MetricData: batch.map(datum => this.toCloudWatchDatum(datum)),
+          })
+        );
+      } catch (err) {
+        // no-op the metric failure. Monitoring should not impact the normal behaviour of the application.
+        this.logger.error('Failed to send metrics to CW', { args: { err, n: batch.length } });
+      }
+    }
+  }
+
+  /* Periodically flush buffered data points. */
+  async listen(): Promise<void> {
+    while (1) {
+      await delay(this.flushInterval);
+      await this.flush();
+    }
+  }
+}
+
+// Upper bounds (ms) of histogram buckets, from RPC calls to order executions.
+const HISTOGRAM_BUCKETS = [10, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000, 300000];
+
+// Dimensions with a shorter label name, others are snake cased (e.g. SignerGroup = signer_group).
+const LABEL_NAMES: Record<string, string> = { KeeperName: 'keeper', MarketKey: 'market' };
+
+interface Series {
+  labels: string;
+  value: number;
+  // Histograms only, observations per bucket (cumulative on render) and their sum.
+  buckets?: number[];
+  sum?: number;
+}
+
+interface Family {
+  type: MetricType;
+  series: Map<string, Series>;
+}
+
+const escapeLabelValue = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+
+/*
+ * Aggregates data points in memory, served in the Prometheus text format at `/metrics`. Counts are
+ * counters (`_total`), gauges are gauges and times are histograms (`_ms`), all labelled by network
+ * and their dimensions (e.g. market and keeper).
+ */
+export class PrometheusSink implements MetricsSink {
+  private readonly PREFIX = 'perps_keeper_';
+
+  private readonly families = new Map<string, Family>();
+  private server?: Server;
+
+  constructor(private readonly network: string, private readonly logger: winston.Logger) {}
+
+  private getFamilyName(name: string, type: MetricType): string {
+    const suffix = {
+      [MetricType.COUNTER]: '_total',
+      [MetricType.GAUGE]: '',
+      [MetricType.HISTOGRAM]: '_ms',
+    };
+    return `${this.PREFIX}${snakeCase(name)}${suffix[type]}`;
+  }
+
+  private getLabels(dimensions: Record<string, string>): string {
+    return Object.entries({ network: this.network, ...dimensions })
+      .map(([key, value]) => `${LABEL_NAMES[key] ?? snakeCase(key)}="${escapeLabelValue(value)}"`)
+      .join(',');
+  }
+
+  put({ name, value, type, dimensions }: MetricDatum): void {
+    const familyName = this.getFamilyName(name, type);
+    const family = this.families.get(familyName) ?? { type, series: new Map() };
+    this.families.set(familyName, family);
+
+    const labels = this.getLabels(dimensions);
+    const series = family.series.get(labels) ?? {
+      labels,
+      value: 0,
+      ...(type === MetricType.HISTOGRAM ? { buckets: HISTOGRAM_BUCKETS.map(() => 0), sum: 0 } : {}),
+    };
+    family.series.set(labels, series);
+
+    switch (type) {
+      case MetricType.COUNTER:
+        series.value += value;
+        break;
+      case MetricType.GAUGE:
+        series.value = value;
+        break;
+      case MetricType.HISTOGRAM: {
+        // `value` is the observation count, the `+Inf` bucket.
+        series.value += 1;
+        series.sum! += value;
+        const i = HISTOGRAM_BUCKETS.findIndex(bound => value <= bound);
+        if (i !== -1) {
+          series.buckets![i] += 1;
+        }
+        break;
+      }
+    }
+  }
+
+  /* Renders every series in the Prometheus text exposition format. */
+  render(): string {
+    const lines: string[] = [];
+    this.families.forEach(({ type, series }, familyName) => {
+      lines.push(`# TYPE ${familyName} ${type}`);
+      series.forEach(({ labels, value, buckets, sum }) => {
+        if (type !== MetricType.HISTOGRAM) {
+          lines.push(`${familyName}{${labels}} ${value}`);
+          return;
+        }
+        let cumulative = 0;
+        HISTOGRAM_BUCKETS.forEach((bound, i) => {
+          cumulative += buckets![i];
+          lines.push(`${familyName}_bucket{${labels},le="${bound}"} ${cumulative}`);
+        });
+        lines.push(`${familyName}_bucket{${labels},le="+Inf"} ${value}`);
+        lines.push(`${familyName}_sum{${labels}} ${sum}`);
+        lines.push(`${familyName}_count{${labels}} ${value}`);
+      });
+    });
+    return `${lines.join('\n')}\n`;
+  }
+
+  /* Serves `/metrics` on `port`. */
+  listen(port: number): void {
+    this.server = createServer((req, res) => {
+      if (req.method !== 'GET' || req.url?.split('?')[0] !== '/metrics') {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' }).end(this.render());
+    });
+    // e.g. the port is in use, metrics are no longer served but the keeper keeps running.
+    this.server.on('error', err =>
+      this.logger.error('Prometheus metrics server failed', { args: { err, port } })
+    );
+    this.server.listen(port, () =>
+      this.logger.info('Serving Prometheus metrics', { args: { port } })
+    );
+  }
+}
@@ -1,14 +1,9 @@
-import {
-  CloudWatchClient,
-  PutMetricDataCommand,
-  PutMetricDataCommandInput,
-  StandardUnit,
-} from '@aws-sdk/client-cloudwatch';
+import { CloudWatchClient } from '@aws-sdk/client-cloudwatch';
 import { camelCase, upperFirst } from 'lodash';
 import winston from 'winston';
 import { KeeperConfig } from './config';
 import { createLogger } from './logging';
-import { Network } from './typed';
+import { CloudWatchSink, MetricsSink, MetricType, PrometheusSink } from './metricSinks';
 
 export enum Metric {
   // How long this keeper has been up and executing.
@@ -28,110 +23,206 @@ export enum Metric {
   // Time in ms it takes to process blocks per iteration at the distributor.
   DISTRIBUTOR_BLOCK_PROCESS_TIME = 'DistributorBlockProcessTime',
 
+  // A chain reorg was detected and keeper indexes were rolled back.
+  DISTRIBUTOR_REORG = 'DistributorReorg',
+
+  // Number of blocks rolled back due to the most recently detected reorg.
+  DISTRIBUTOR_REORG_DEPTH = 'DistributorReorgDepth',
+
+  // Number of keeper index entries corrected by the most recent reconciliation against on-chain state.
+  INDEX_CORRECTIONS = 'IndexCorrections',
+
+  // A log query exceeded provider limits and its block range was split in half.
+  LOG_QUERY_RANGE_SPLIT = 'LogQueryRangeSplit',
+
+  // Current number of blocks queried per `eth_getLogs` request.
+  LOG_QUERY_WINDOW_SIZE = 'LogQueryWindowSize',
+
+  // Percentage of blocks fetched during a long backfill (e.g. rebuilding the index).
+  LOG_QUERY_PROGRESS = 'LogQueryProgress',
+
+  // The WebSocket block subscription dropped and the coordinator fell back to polling.
+  SUBSCRIPTION_DISCONNECTED = 'SubscriptionDisconnected',
+
+  // A market was added to (or removed from) the FuturesMarketManager and is now (no longer) kept.
+  MARKET_ADDED = 'MarketAdded',
+  MARKET_REMOVED = 'MarketRemoved',
+
   // Delayed order executed successfully.
   DELAYED_ORDER_EXECUTED = 'DelayedOrderExecuted',
 
   // Offchain order executed successfully.
   OFFCHAIN_ORDER_EXECUTED = 'OffchainOrderExecuted',
 
+  // Stale (past its execution window) delayed or offchain order cancelled successfully.
+  DELAYED_ORDER_CANCELLED = 'DelayedOrderCancelled',
+  OFFCHAIN_ORDER_CANCELLED = 'OffchainOrderCancelled',
+
+  // Stale order cancellation failed (or exceeded max attempts and is no longer tracked).
+  ORDER_CANCELLATION_FAILED = 'OrderCancellationFailed',
+
   // Open position liquidated successfully.
   POSITION_LIQUIDATED = 'PositionLiquidated',
 
+  // Liquidation not executed (skipped or deferred) as the keeper fee would not cover the gas cost.
+  LIQUIDATION_SKIPPED = 'LiquidationSkipped',
+
+  // The profitability of a liquidation could not be estimated, it is executed as if profitable.
+  LIQUIDATION_ESTIMATE_FAILED = 'LiquidationEstimateFailed',
+
+  // Funding recomputed successfully (or skipped as it exceeded the cost ceiling).
+  FUNDING_RECOMPUTED = 'FundingRecomputed',
+  FUNDING_RECOMPUTE_SKIPPED = 'FundingRecomputeSkipped',
+
+  // Number of seconds since funding was last recomputed.
+  FUNDING_RECOMPUTE_AGE = 'FundingRecomputeAge',
+
+  // A keeper action was not submitted as its simulation reverted (dimensioned by reason).
+  SIMULATION_REVERTED = 'SimulationReverted',
+
+  // Pending transaction re-sent with bumped fees, or cancelled, after failing to be mined in time.
+  TX_REPLACED = 'TxReplaced',
+  TX_CANCELLED = 'TxCancelled',
+
+  // Average latency (ms) and error rate of recent requests to an RPC endpoint (dimensioned by endpoint).
+  RPC_LATENCY = 'RpcLatency',
+  RPC_ERROR_RATE = 'RpcErrorRate',
+
+  // Number of blocks an RPC endpoint is behind the highest block seen (dimensioned by endpoint).
+  RPC_BLOCK_LAG = 'RpcBlockLag',
+
+  // Whether an RPC endpoint is healthy (1) and in the quorum, or not (0).
+  RPC_HEALTHY = 'RpcHealthy',
+
+  // A signed transaction was accepted (or already known) or rejected by an endpoint (dimensioned by endpoint).
+  TX_BROADCAST_ACCEPTED = 'TxBroadcastAccepted',
+  TX_BROADCAST_REJECTED = 'TxBroadcastRejected',
+
+  // An endpoint was the first to report a broadcast transaction as mined (dimensioned by endpoint).
+  TX_FIRST_SEEN_INCLUDED = 'TxFirstSeenIncluded',
+
+  // A send was rejected as its nonce was already used, and skipped to the next unused nonce.
+  NONCE_CONFLICT = 'NonceConflict',
+
+  // An unused nonce stalling later transactions was filled with a 0-value self-transfer.
+  NONCE_GAP_FILLED = 'NonceGapFilled',
+
   // Number of available signers in the signer pool (0 means transactions cannot be executed).
   SIGNER_POOL_SIZE = 'SignerPoolSize',
 
-  // TODO: Add metrics for time taken per keeper type.
-}
+  // Number of callers waiting for a signer.
+  SIGNER_QUEUE_DEPTH = 'SignerQueueDepth',
 
-export class Metrics {
-  private readonly BASE_NAMESPACE = 'PerpsV2Keeper/';
-  private readonly DEFAULT_RESOLUTION = 60; // 60s
+  // Time in ms a caller waited for a signer (dimensioned by priority).
+  SIGNER_WAIT_TIME = 'SignerWaitTime',
+
+  // ETH balance of a signer (dimensioned by signer address).
+  SIGNER_BALANCE = 'SignerBalance',
+
+  // Signer topped up from the funding account (dimensioned by signer address).
+  SIGNER_TOPPED_UP = 'SignerToppedUp',
+
+  // Time in ms a keeper took to update its index, or to execute (dimensioned by keeper and market).
+  KEEPER_UPDATE_INDEX_TIME = 'KeeperUpdateIndexTime',
+  KEEPER_EXECUTE_TIME = 'KeeperExecuteTime',
 
-  private readonly namespace: string;
+  // Time in ms from an order becoming executable (off-chain) or being submitted (delayed) until the
+  // block our execution or cancellation was mined in (dimensioned by keeper, market and outcome).
+  ORDER_LATENCY = 'OrderLatency',
 
+  // p95 of recent order latencies, alerted on when above the configured SLA.
+  ORDER_LATENCY_P95 = 'OrderLatencyP95',
+}
+
+const BASE_NAMESPACE = 'PerpsV2Keeper/';
+
+export class Metrics {
   private constructor(
     readonly isEnabled: boolean,
-    network: Network,
-    private readonly logger: winston.Logger,
-    private readonly cwClient?: CloudWatchClient
-  ) {
-    // e.g. `mainnet-ovm` = PerpsV2Keeper/MainnetOvm
-    this.namespace = `${this.BASE_NAMESPACE}${upperFirst(camelCase(network))}`;
-  }
+    private readonly sinks: MetricsSink[],
+    private readonly logger: winston.Logger
+  ) {}
 
-  static create(isEnabled: boolean, network: Network, awsConfig: KeeperConfig['aws']): Metrics {
+  static create(config: KeeperConfig): Metrics {
     const logger = createLogger('Metrics');
-
-    logger.info('Initialising metrics', { args: { enabled: isEnabled } });
-
-    const { accessKeyId, secretAccessKey, region } = awsConfig;
-    if (!isEnabled || !accessKeyId || !secretAccessKey || !region) {
-      return new Metrics(isEnabled, network, logger);
-    }
-    return new Metrics(
-      isEnabled,
+    const {
+      isMetricsEnabled: isEnabled,
       network,
-      logger,
-      new CloudWatchClient({
+      aws,
+      prometheusPort,
+      metricsFlushInterval,
+    } = config;
+
+    const sinks: MetricsSink[] = [];
+    const { accessKeyId, secretAccessKey, region } = aws;
+    if (isEnabled && accessKeyId && secretAccessKey && region) {
+      // e.g. `mainnet-ovm` = PerpsV2Keeper/MainnetOvm
+      const namespace = `${BASE_NAMESPACE}${upperFirst(camelCase(network))}`;
+      const cwClient = new CloudWatchClient({
         credentials: {
           accessKeyId,
           secretAccessKey,
         },
         region,
-      })
-    );
+      });
+      const sink = new CloudWatchSink(cwClient, namespace, metricsFlushInterval, logger);
+      sink.listen();
+      sinks.push(sink);
+    }
+    if (isEnabled && prometheusPort) {
+      const sink = new PrometheusSink(network, logger);
+      sink.listen(prometheusPort);
+      sinks.push(sink);
+    }
+
+    logger.info('Initialising metrics', {
+      args: { enabled: isEnabled, sinks: sinks.map(sink => sink.constructor.name) },
+    });
+    return new Metrics(isEnabled, sinks, logger);
   }
 
-  /* A simple abstracted 'putMetric' call to push gauge/count style metrics to CW. */
+  /* Records a data point with every sink. */
   async send(
     name: Metric,
     value: number,
-    unit: StandardUnit = StandardUnit.None,
+    type: MetricType,
     dimensions?: Record<string, string>
   ): Promise<void> {
-    if (!this.cwClient || !this.isEnabled) {
-      this.logger.debug('Send no-op due to missing CW client', {
-        args: { enabled: this.isEnabled, namespace: this.namespace },
+    if (!this.sinks.length || !this.isEnabled) {
+      this.logger.debug('Send no-op due to no metrics sinks', {
+        args: { enabled: this.isEnabled },
       });
       return;
     }
 
-    try {
-      // Construct the MetricData.
-      //
-      // @see: https://docs.aws.amazon.com/AWSJavaScriptSDK/v3/latest/clients/client-cloudwatch/interfaces/putmetricdatacommandinput.html
-      const input: PutMetricDataCommandInput = {
-        MetricData: [
-          {
-            MetricName: name,
-            Dimensions: Object.entries(dimensions ?? {}).map(([Name, Value]) => ({ Name, Value })),
-            Value: value,
-            StorageResolution: this.DEFAULT_RESOLUTION,
-            Unit: unit,
-          },
-        ],
-        Namespace: this.namespace,
-      };
-      const command = new PutMetricDataCommand(input);
-      await this.cwClient.send(command);
-    } catch (err) {
-      // no-op the metric failure. Monitoring should not impact the normal behaviour of the application.
-      this.logger.error('Failed to send metrics to CW', { args: { err } });
-    }
+    const datum = { name, value, type, dimensions: dimensions ?? {}, timestamp: new Date() };
+    this.sinks.forEach(sink => {
+      try {
+        sink.put(datum);
+      } catch (err) {
+        // no-op the metric failure. Monitoring should not impact the normal behaviour of the application.
+        this.logger.error('Failed to record metric', { args: { err, name } });
+      }
+    });
+  }
+
+  /* Sends any buffered data points, e.g. before shutting down. */
+  async flush(): Promise<void> {
+    await Promise.all(this.sinks.map(sink => sink.flush?.()));
   }
 
   /* Adds 1 to the `name` metric. Also commonly known as `increment`. */
   async count(name: Metric, dimensions?: Record<string, string>): Promise<void> {
-    return this.send(name, 1, StandardUnit.Count, dimensions);
+    return this.send(name, 1, MetricType.COUNTER, dimensions);
   }
 
   /* Adds `value` as a gauge metric. */
   async gauge(name: Metric, value: number, dimensions?: Record<string, string>): Promise<void> {
-    return this.send(name, value, StandardUnit.Count, dimensions);
+    return this.send(name, value, MetricType.GAUGE, dimensions);
   }
 
   /* `endTime - startTime` assumed to be ms (* 1000 if not). */
   async time(name: Metric, value: number, dimensions?: Record<string, string>): Promise<void> {
-    return this.send(name, value, StandardUnit.Milliseconds, dimensions);
+    return this.send(name, value, MetricType.HISTOGRAM, dimensions);
   }
 }
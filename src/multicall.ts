@@ -0,0 +1,144 @@
+import { Contract, providers, utils } from 'ethers';
+import { chunk } from 'lodash';
+import { Logger } from 'winston';
+import { createLogger } from './logging';
+
+// @see: https://github.com/mds1/multicall (deployed at the same address on most chains)
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = [
+  'function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)',
+];
+
+interface PendingCall {
+  contract: Contract;
+  method: string;
+  args: unknown[];
+  resolve: (value: unknown) => void;
+  reject: (err: Error) => void;
+}
+
+/*
+ * Batches read-only contract calls made in the same tick into Multicall3 `aggregate3` calls. Each call
+ * resolves (or rejects) independently. When Multicall3 is not deployed on the connected chain (e.g. a
+ * local devnet), calls fall back to individual `eth_call`s.
+ */
+export class Multicall {
+  private readonly logger: Logger;
+  private readonly multicall: Contract;
+
+  private pending: PendingCall[] = [];
+  private isDeployed?: Promise<boolean>;
+
+  // Maximum number of calls aggregated into a single eth_call.
+  private readonly MAX_CALLS_PER_BATCH = 250;
+
+  constructor(private readonly provider: providers.BaseProvider) {
+    this.logger = createLogger('Multicall');
+    this.multicall = new Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+  }
+
+  /*
+   * Queues a read of `contract.method(...args)`, resolving the same as calling the contract directly.
+   * Results are not decoded against `T`, callers state the type the method returns.
+   */
+  call<T = unknown>(contract: Contract, method: string, ...args: unknown[]): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (!this.pending.length) {
+        setImmediate(() => this.flush());
+      }
+      this.pending.push({
+        contract,
+        method,
+        args,
+        resolve: value => resolve(value as T),
+        reject,
+      });
+    });
+  }
+
+  private checkDeployed(): Promise<boolean> {
+    if (!this.isDeployed) {
+      this.isDeployed = this.provider.getCode(MULTICALL3_ADDRESS).then(code => {
+        const isDeployed = utils.hexDataLength(code) > 0;
+        if (!isDeployed) {
+          this.logger.warn('Multicall3 not deployed, falling back to individual calls', {
+            args: { address: MULTICALL3_ADDRESS },
+          });
+        }
+        return isDeployed;
+      });
+      // Retry on the next flush rather than caching a failed lookup.
+      this.isDeployed.catch(() => (this.isDeployed = undefined));
+    }
+    return this.isDeployed;
+  }
+
+  private async flush(): Promise<void> {
+    const calls = this.pending;
+    this.pending = [];
+
+    let isDeployed: boolean;
+    try {
+      isDeployed = await this.checkDeployed();
+    } catch (err) {
+      calls.forEach(({ reject }) => reject(err as Error));
+      return;
+    }
+
+    if (!isDeployed) {
+      calls.forEach(({ contract, method, args, resolve, reject }) =>
+        contract[method](...args).then(resolve, reject)
+      );
+      return;
+    }
+
+    this.logger.debug('Aggregating calls', { args: { n: calls.length } });
+    await Promise.all(chunk(calls, this.MAX_CALLS_PER_BATCH).map(batch => this.aggregate(batch)));
+  }
+
+  private async aggregate(calls: PendingCall[]): Promise<void> {
+    // Calls that cannot be encoded (e.g. invalid args) are rejected without failing the batch.
+    const encoded = calls.filter(call => {
+      try {
+        call.contract.interface.encodeFunctionData(call.method, call.args);
+        return true;
+      } catch (err) {
+        call.reject(err as Error);
+        return false;
+      }
+    });
+    if (!encoded.length) {
+      return;
+    }
+
+    let results: { success: boolean; returnData: string }[];
+    try {
+      results = await this.multicall.callStatic.aggregate3(
+        encoded.map(({ contract, method, args }) => ({
+          target: contract.address,
+          allowFailure: true,
+          callData: contract.interface.encodeFunctionData(method, args),
+        }))
+      );
+    } catch (err) {
+      encoded.forEach(({ reject }) => reject(err as Error));
+      return;
+    }
+
+    encoded.forEach(({ contract, method, resolve, reject }, i) => {
+      const { success, returnData } = results[i];
+      try {
+        // Decoding revert data throws with the revert reason (if any).
+        const fragment = contract.interface.getFunction(method);
+        const result = contract.interface.decodeFunctionResult(fragment, returnData);
+        if (!success) {
+          throw new Error(`Call reverted (${method})`);
+        }
+        resolve(fragment.outputs?.length === 1 ? result[0] : result);
+      } catch (err) {
+        reject(err as Error);
+      }
+    });
+  }
+}
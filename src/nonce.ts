@@ -0,0 +1,184 @@
+import { TransactionRequest, TransactionResponse } from '@ethersproject/providers';
+import { BigNumber, providers, Signer, utils } from 'ethers';
+import { Deferrable } from 'ethers/lib/utils';
+import { range } from 'lodash';
+import { Logger } from 'winston';
+import { createLogger } from './logging';
+import { Metric, Metrics } from './metrics';
+
+// Errors (ethers code or node message) of a send whose nonce is used by a mined or pending transaction.
+const NONCE_TOO_LOW = /NONCE_EXPIRED|nonce too low|nonce has already been used/i;
+const NONCE_PENDING = /REPLACEMENT_UNDERPRICED|replacement transaction underpriced/i;
+
+// A send rejected as its nonce is used is retried once with the next unused nonce.
+const MAX_SEND_ATTEMPTS = 2;
+
+const GAP_FILL_GAS_LIMIT = 21000;
+
+export const isNonceUsedError = (err: unknown): boolean => {
+  const { code, message } = (err ?? {}) as { code?: unknown; message?: unknown };
+  return [NONCE_TOO_LOW, NONCE_PENDING].some(pattern => pattern.test(`${code} ${message}`));
+};
+
+/*
+ * Assigns nonces to a signer's transactions locally and tracks those sent against the signer's `latest`
+ * and `pending` transaction counts. Nonces left unused while later ones were sent (a gap, e.g. from a
+ * failed send or a dropped transaction) stall the signer, `sync` fills them with 0-value self-transfers.
+ * A sent nonce still unknown to the node after `dropTimeout` ms is considered dropped.
+ */
+export class NonceManager extends Signer {
+  readonly provider?: providers.Provider;
+
+  private readonly logger: Logger;
+
+  // The next nonce to assign, initialised from the `pending` count on first use.
+  private next = 0;
+  private initialised?: Promise<void>;
+
+  // Nonces of sent transactions not yet known to be mined, and when they were sent.
+  private readonly sent = new Map<number, number>();
+
+  constructor(
+    readonly signer: Signer,
+    protected readonly metrics: Metrics,
+    protected readonly dropTimeout: number
+  ) {
+    super();
+    utils.defineReadOnly(this, 'provider', signer.provider);
+    this.logger = createLogger('NonceManager');
+  }
+
+  getAddress(): Promise<string> {
+    return this.signer.getAddress();
+  }
+
+  signMessage(message: string | utils.Bytes): Promise<string> {
+    return this.signer.signMessage(message);
+  }
+
+  signTransaction(transaction: Deferrable<TransactionRequest>): Promise<string> {
+    return this.signer.signTransaction(transaction);
+  }
+
+  connect(provider: providers.Provider): NonceManager {
+    return new NonceManager(this.signer.connect(provider), this.metrics, this.dropTimeout);
+  }
+
+  private async assignNonce(): Promise<number> {
+    if (!this.initialised) {
+      this.initialised = this.signer.getTransactionCount('pending').then(
+        pending => {
+          this.next = Math.max(this.next, pending);
+        },
+        err => {
+          this.initialised = undefined;
+          throw err;
+        }
+      );
+    }
+    await this.initialised;
+    return this.next++;
+  }
+
+  /* Returns an assigned nonce that was not used. Unless it was the last assigned, this leaves a gap. */
+  private unassignNonce(nonce: number): void {
+    if (nonce === this.next - 1) {
+      this.next--;
+    }
+  }
+
+  async sendTransaction(transaction: Deferrable<TransactionRequest>): Promise<TransactionResponse> {
+    // Explicit nonces (e.g. gap fills) are sent as is.
+    if (transaction.nonce !== undefined) {
+      const nonce = BigNumber.from(await transaction.nonce).toNumber();
+      const tx = await this.signer.sendTransaction(transaction);
+      this.sent.set(nonce, Date.now());
+      this.next = Math.max(this.next, nonce + 1);
+      return tx;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const nonce = await this.assignNonce();
+      try {
+        const tx = await this.signer.sendTransaction({ ...transaction, nonce });
+        this.sent.set(nonce, Date.now());
+        return tx;
+      } catch (err) {
+        if (!isNonceUsedError(err)) {
+          this.unassignNonce(nonce);
+          throw err;
+        }
+
+        // Used outside of this manager (e.g. another process or before a restart), skip past it.
+        const pending = await this.signer.getTransactionCount('pending');
+        this.next = Math.max(this.next, pending, nonce + 1);
+        this.metrics.count(Metric.NONCE_CONFLICT);
+        this.logger.warn('Nonce already used, skipping to the next', {
+          args: { address: await this.getAddress(), nonce, next: this.next, attempt },
+        });
+        if (attempt >= MAX_SEND_ATTEMPTS) {
+          throw err;
+        }
+      }
+    }
+  }
+
+  private async fillGap(address: string, nonce: number): Promise<void> {
+    try {
+      await this.sendTransaction({ to: address, value: 0, gasLimit: GAP_FILL_GAS_LIMIT, nonce });
+      this.metrics.count(Metric.NONCE_GAP_FILLED);
+      this.logger.warn('Filled nonce gap', { args: { address, nonce } });
+    } catch (err) {
+      // Used in the meantime, the gap is already filled.
+      if (!isNonceUsedError(err)) {
+        throw err;
+      }
+    }
+  }
+
+  /* Re-syncs with the signer's transaction counts, filling nonce gaps that would stall later transactions. */
+  async sync(): Promise<void> {
+    const address = await this.getAddress();
+    const [latest, pending] = await Promise.all([
+      this.signer.getTransactionCount('latest'),
+      this.signer.getTransactionCount('pending'),
+    ]);
+    this.sent.forEach((_, nonce) => nonce < latest && this.sent.delete(nonce));
+    this.initialised = this.initialised ?? Promise.resolve();
+
+    if (pending >= this.next) {
+      this.next = pending;
+      return;
+    }
+
+    // Nonces from `pending` on aren't known to the node. Those after the last sent are simply
+    // reassigned, those before it were never sent and stall the sent ones until they're used.
+    const queued = [...this.sent.keys()].filter(nonce => nonce >= pending);
+    const next = queued.length ? Math.max(...queued) + 1 : pending;
+
+    // A sent transaction the node still doesn't know of long after it was sent has been dropped (e.g.
+    // evicted from the mempool), its nonce stalls the later ones until it's filled.
+    const dropped = queued.filter(
+      nonce => nonce < next - 1 && Date.now() - this.sent.get(nonce)! > this.dropTimeout
+    );
+    if (dropped.length) {
+      this.logger.warn('Sent transactions dropped', { args: { address, nonces: dropped } });
+      dropped.forEach(nonce => this.sent.delete(nonce));
+    }
+    if (next < this.next) {
+      this.logger.info('Reassigning unused nonces', {
+        args: { address, from: next, to: this.next },
+      });
+      this.next = next;
+    }
+
+    const gaps = range(pending, next).filter(nonce => !this.sent.has(nonce));
+    if (!gaps.length) {
+      return;
+    }
+    this.logger.warn('Nonce gap detected', { args: { address, latest, pending, last: next - 1 } });
+    for (const nonce of gaps) {
+      await this.fillGap(address, nonce);
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { BigNumber, providers } from 'ethers';
+import { sortBy } from 'lodash';
+import { Logger } from 'winston';
+import { RpcConfig, RpcHealthConfig } from './config';
+import { createLogger } from './logging';
+import { Metric, Metrics } from './metrics';
+import { delay, sendTG } from './utils';
+
+// Number of most recent requests latency and error rate are measured over.
+const SAMPLE_WINDOW = 50;
+
+interface RequestSample {
+  latency: number;
+  isError: boolean;
+}
+
+/*
+ * Whether a failed request is the endpoint's fault (e.g. timeout, HTTP error), rather than a JSON-RPC
+ * error response (e.g. a reverted call) any endpoint would return.
+ */
+const isEndpointError = (err: unknown): boolean =>
+  typeof (err as { code?: unknown } | undefined)?.code !== 'number';
+
+/*
+ * A `JsonRpcProvider` recording the latency and outcome of its recent requests. The network is only
+ * detected once, an unreachable endpoint would otherwise fail the network check of every request.
+ */
+export class MonitoredJsonRpcProvider extends providers.StaticJsonRpcProvider {
+  readonly name: string;
+
+  private readonly samples: RequestSample[] = [];
+
+  constructor(url: string, name?: string) {
+    super(url);
+    this.name = name ?? new URL(url).host;
+  }
+
+  private record(sample: RequestSample): void {
+    this.samples.push(sample);
+    if (this.samples.length > SAMPLE_WINDOW) {
+      this.samples.shift();
+    }
+  }
+
+  async send(method: string, params: Array<any>): Promise<any> {
+    const startTime = Date.now();
+    try {
+      const result = await super.send(method, params);
+      this.record({ latency: Date.now() - startTime, isError: false });
+      return result;
+    } catch (err) {
+      this.record({ latency: Date.now() - startTime, isError: isEndpointError(err) });
+      throw err;
+    }
+  }
+
+  /* Average latency (ms) and error rate of recent requests. */
+  getStats(): { latency: number; errorRate: number } {
+    const n = this.samples.length || 1;
+    return {
+      latency: this.samples.reduce((sum, { latency }) => sum + latency, 0) / n,
+      errorRate: this.samples.filter(({ isError }) => isError).length / n,
+    };
+  }
+}
+
+export interface RpcEndpoint extends providers.FallbackProviderConfig {
+  provider: MonitoredJsonRpcProvider;
+}
+
+/* Creates the endpoints of the configured RPCs. */
+export const createRpcEndpoints = (rpcs: RpcConfig[]): RpcEndpoint[] =>
+  rpcs.map(({ url, name, priority, weight, stallTimeout }) => ({
+    provider: new MonitoredJsonRpcProvider(url, name),
+    priority,
+    weight,
+    stallTimeout,
+  }));
+
+/*
+ * A `FallbackProvider` only sending requests to healthy endpoints. Endpoints lagging the highest block
+ * seen by `maxBlockLag` blocks, or with too high a recent error rate or latency, are taken out of the
+ * quorum until they recover. When no endpoint is healthy, all are used.
+ */
+export class HealthAwareProvider extends providers.FallbackProvider {
+  protected readonly logger: Logger;
+
+  // Endpoints healthy as of the last check, and those requests are sent to.
+  private healthy: RpcEndpoint[];
+  private quorumEndpoints: RpcEndpoint[];
+  private quorumProvider: providers.FallbackProvider;
+
+  constructor(
+    protected readonly rpcEndpoints: RpcEndpoint[],
+    protected readonly metrics: Metrics,
+    private readonly healthConfig: RpcHealthConfig
+  ) {
+    super(rpcEndpoints);
+    this.logger = createLogger('Provider');
+    this.healthy = rpcEndpoints;
+    this.quorumEndpoints = rpcEndpoints;
+    this.quorumProvider = new providers.FallbackProvider(rpcEndpoints);
+  }
+
+  async detectNetwork(): Promise<providers.Network> {
+    return this.quorumProvider.detectNetwork();
+  }
+
+  async perform(method: string, params: { [name: string]: any }): Promise<any> {
+    return this.quorumProvider.perform(method, params);
+  }
+
+  /*
+   * Sends a raw JSON-RPC request (e.g. one ethers cannot format) to the quorum endpoints in priority
+   * order, moving on to the next endpoint only when one fails rather than rejects the request.
+   */
+  async send(method: string, params: Array<any>): Promise<any> {
+    let error: unknown;
+    for (const { provider } of sortBy(this.quorumEndpoints, ({ priority }) => priority ?? 1)) {
+      try {
+        return await provider.send(method, params);
+      } catch (err) {
+        if (!isEndpointError(err)) {
+          throw err;
+        }
+        error = err;
+      }
+    }
+    throw error;
+  }
+
+  /* Checks each endpoint's health, updating the quorum when endpoints become (un)healthy. */
+  async checkHealth(): Promise<void> {
+    const blockNumbers = await Promise.all(
+      this.rpcEndpoints.map(({ provider }) =>
+        provider.send('eth_blockNumber', []).then(
+          (blockNumber: string) => BigNumber.from(blockNumber).toNumber(),
+          () => undefined
+        )
+      )
+    );
+    const tip = Math.max(...blockNumbers.map(blockNumber => blockNumber ?? 0));
+
+    const healthy = this.rpcEndpoints.filter(({ provider }, i) => {
+      const { latency, errorRate } = provider.getStats();
+      const blockNumber = blockNumbers[i];
+      const blockLag = blockNumber === undefined ? undefined : tip - blockNumber;
+
+      const dimensions = { Endpoint: provider.name };
+      this.metrics.time(Metric.RPC_LATENCY, latency, dimensions);
+      this.metrics.gauge(Metric.RPC_ERROR_RATE, errorRate, dimensions);
+      if (blockLag !== undefined) {
+        this.metrics.gauge(Metric.RPC_BLOCK_LAG, blockLag, dimensions);
+      }
+
+      const isHealthy =
+        blockLag !== undefined &&
+        blockLag <= this.healthConfig.maxBlockLag &&
+        errorRate <= this.healthConfig.maxErrorRate &&
+        latency <= this.healthConfig.maxLatency;
+      this.metrics.gauge(Metric.RPC_HEALTHY, isHealthy ? 1 : 0, dimensions);
+
+      const wasHealthy = this.healthy.some(endpoint => endpoint.provider === provider);
+      if (isHealthy !== wasHealthy) {
+        const args = { endpoint: provider.name, blockLag, errorRate, latency };
+        if (isHealthy) {
+          this.logger.info('Endpoint recovered, returned to quorum', { args });
+        } else {
+          this.logger.warn('Endpoint unhealthy, taken out of quorum', { args });
+          sendTG(`RPC endpoint ${provider.name} unhealthy, taken out of quorum`);
+        }
+      }
+      return isHealthy;
+    });
+
+    if (!healthy.length && this.healthy.length) {
+      this.logger.error('No healthy endpoints, using all');
+      sendTG('No healthy RPC endpoints, using all');
+    }
+    this.healthy = healthy;
+
+    const quorum = healthy.length ? healthy : this.rpcEndpoints;
+    if (
+      quorum.length !== this.quorumEndpoints.length ||
+      quorum.some(endpoint => !this.quorumEndpoints.includes(endpoint))
+    ) {
+      this.quorumEndpoints = quorum;
+      this.quorumProvider = new providers.FallbackProvider(quorum);
+    }
+  }
+
+  /* Periodically check endpoint health. Failures are logged and retried on the next interval. */
+  async monitorHealth(): Promise<void> {
+    while (1) {
+      await delay(this.healthConfig.checkInterval);
+      try {
+        await this.checkHealth();
+      } catch (err) {
+        this.logger.error('Failed to check endpoint health', { args: { err } });
+      }
+    }
+  }
+}
@@ -1,84 +1,234 @@
 import { Logger } from 'winston';
 import { createLogger } from './logging';
-import { providers, Wallet } from 'ethers';
-import { HDNode } from 'ethers/lib/utils';
-import { NonceManager } from '@ethersproject/experimental';
+import { providers, Signer, utils, Wallet } from 'ethers';
+import { Deferrable } from 'ethers/lib/utils';
+import {
+  TransactionReceipt,
+  TransactionRequest,
+  TransactionResponse,
+} from '@ethersproject/providers';
 import { delay, sendTG } from './utils';
-import { range } from 'lodash';
+import { SignerPriority } from './typed';
 import { Metric, Metrics } from './metrics';
+import { FeeStrategy } from './fees';
+import { TxWatchdog } from './watchdog';
+import { DEFAULT_SIGNER_GROUP, KeeperConfig, SignerBalanceConfig } from './config';
+import { SignerFunder } from './funder';
+import { NonceManager } from './nonce';
 
 const _logger = createLogger('SignerPool');
 
-function isObjectOrErrorWithCode(x: unknown): x is { code: string } {
-  if (typeof x !== 'object') return false;
-  if (x === null) return false;
-  return 'code' in x;
+/* A `NonceManager` pricing transactions with the configured fee strategy, unless priced explicitly. */
+export class FeeNonceManager extends NonceManager {
+  constructor(
+    signer: Signer,
+    private readonly feeStrategy: FeeStrategy,
+    metrics: Metrics,
+    dropTimeout: number
+  ) {
+    super(signer, metrics, dropTimeout);
+  }
+
+  async sendTransaction(transaction: Deferrable<TransactionRequest>): Promise<TransactionResponse> {
+    if (transaction.gasPrice === undefined && transaction.maxFeePerGas === undefined) {
+      transaction = { ...transaction, ...(await this.feeStrategy.getFees()), type: 2 };
+    }
+    return super.sendTransaction(transaction);
+  }
 }
 
+/*
+ * Wraps loaded signers (see `loadSigners`) for use in the pool. Sent transactions unknown to the node
+ * after `dropTimeout` ms (i.e. the watchdog gave up on them) are considered dropped.
+ */
 export const createSigners = (
-  mnemonic: string,
+  signers: Signer[],
+  feeStrategy: FeeStrategy,
+  metrics: Metrics,
+  dropTimeout: number
+): NonceManager[] =>
+  signers.map(signer => new FeeNonceManager(signer, feeStrategy, metrics, dropTimeout));
+
+/* Creates the signer of the account signers are topped up from. */
+export const createFundingSigner = (
+  privateKey: string,
   provider: providers.BaseProvider,
-  amount = 1
-): NonceManager[] => {
-  if (amount < 1) {
-    throw new Error(`There must be at least one signer, '${amount}' found...`);
-  }
-  const masterNode = HDNode.fromMnemonic(mnemonic);
-  return range(amount).map(i => {
-    const wallet = new Wallet(masterNode.derivePath(`m/44'/60'/0'/0/${i}`).privateKey, provider);
-    _logger.info(`Created signer ${i + 1}/${amount}`, { args: { address: wallet.address } });
-    return new NonceManager(wallet).connect(provider);
-  });
+  feeStrategy: FeeStrategy,
+  metrics: Metrics,
+  dropTimeout: number
+): NonceManager => {
+  const wallet = new Wallet(privateKey, provider);
+  _logger.info('Created funding signer', { args: { address: wallet.address } });
+  return new FeeNonceManager(wallet, feeStrategy, metrics, dropTimeout);
 };
 
 export interface WithSignerContext {
   asset: string;
+  priority: SignerPriority;
   [key: string]: string | number;
 }
 
-export class SignerPool {
-  private readonly ACQUIRE_SIGNER_DELAY = 100;
+interface SignerWaiter {
+  priority: SignerPriority;
+  resolve: (i: number) => void;
+}
 
+export class SignerPool {
   private readonly pool: number[];
   private readonly logger: Logger;
+  private readonly metricDimensions: Record<string, string>;
+
+  // Callers waiting for a signer, ordered by priority then age.
+  private readonly queue: SignerWaiter[] = [];
+
+  // Signers currently acquired, and those out of rotation due to a low balance.
+  private readonly held = new Set<number>();
+  private readonly outOfRotation = new Set<number>();
 
   constructor(
+    readonly name: string,
     private readonly signers: NonceManager[],
     private readonly metrics: Metrics,
-    logger: Logger = _logger
+    private readonly watchdog: TxWatchdog,
+    private readonly balanceConfig: SignerBalanceConfig,
+    private readonly funder?: SignerFunder,
+    // Number of signers only handed out to liquidations.
+    private readonly reservedLiquidationSigners: number = 0,
+    logger: Logger = createLogger(`SignerPool [${name}]`)
   ) {
+    if (reservedLiquidationSigners >= signers.length) {
+      throw new Error(
+        `Reserved liquidation signers (${reservedLiquidationSigners}) must be fewer than signers (${signers.length}) in group '${name}'`
+      );
+    }
     this.signers = signers;
     this.pool = Array.from(Array(this.signers.length).keys());
     this.logger = logger;
+    this.metricDimensions = { SignerGroup: name };
 
     this.logger.info('Initialized signer pool', { args: this.getLogArgs() });
   }
 
+  /* Number of signers in rotation, held or not. 0 means transactions cannot be executed. */
+  get size(): number {
+    return this.signers.length - this.outOfRotation.size;
+  }
+
   private getLogArgs(): Record<string, string | number> {
-    return { pool: this.pool.join(','), n: this.pool.length };
+    return { pool: this.pool.join(','), n: this.pool.length, queued: this.queue.length };
+  }
+
+  /* Hands free signers to waiting callers, keeping the reserved signers for liquidations. */
+  private dispatch(): void {
+    while (this.queue.length && this.pool.length) {
+      const reserved =
+        this.queue[0].priority === SignerPriority.LIQUIDATION ? 0 : this.reservedLiquidationSigners;
+      // The queue is ordered by priority, no later caller can take a reserved signer either.
+      if (this.pool.length <= reserved) {
+        break;
+      }
+      this.queue.shift()!.resolve(this.pool.shift()!);
+    }
+    this.metrics.gauge(Metric.SIGNER_POOL_SIZE, this.pool.length, this.metricDimensions);
+    this.metrics.gauge(Metric.SIGNER_QUEUE_DEPTH, this.queue.length, this.metricDimensions);
   }
 
   private async acquire(ctx: WithSignerContext): Promise<[number, NonceManager]> {
     this.logger.info(`[${ctx.asset}] Awaiting signer...`, { args: this.getLogArgs() });
-    let i = this.pool.shift();
-
-    this.metrics.gauge(Metric.SIGNER_POOL_SIZE, this.pool.length);
-    while (i === undefined) {
-      await delay(this.ACQUIRE_SIGNER_DELAY);
-      i = this.pool.shift();
-    }
+    const enqueuedAt = Date.now();
+    const i = await new Promise<number>(resolve => {
+      const waiter = { priority: ctx.priority, resolve };
+      // Behind every waiter of the same or a higher priority, i.e. oldest first within a priority.
+      const position = this.queue.findIndex(({ priority }) => priority > ctx.priority);
+      this.queue.splice(position === -1 ? this.queue.length : position, 0, waiter);
+      this.dispatch();
+    });
 
-    this.metrics.gauge(Metric.SIGNER_POOL_SIZE, this.pool.length);
+    this.held.add(i);
+    this.metrics.time(Metric.SIGNER_WAIT_TIME, Date.now() - enqueuedAt, {
+      ...this.metricDimensions,
+      Priority: SignerPriority[ctx.priority],
+    });
+    this.metrics.gauge(Metric.SIGNER_POOL_SIZE, this.pool.length, this.metricDimensions);
     this.logger.info(`[${ctx.asset}] Acquired signer @ index '${i}'`, { args: this.getLogArgs() });
     return [i, this.signers[i]];
   }
 
   private release(i: number, ctx: WithSignerContext) {
-    this.pool.push(i);
-    this.metrics.gauge(Metric.SIGNER_POOL_SIZE, this.pool.length);
+    this.held.delete(i);
+    if (!this.outOfRotation.has(i)) {
+      this.pool.push(i);
+    }
+    this.dispatch();
     this.logger.info(`[${ctx.asset}] Released signer @ index '${i}'`, { args: this.getLogArgs() });
   }
 
+  /* Takes a signer out of (or returns it to) rotation. Held signers are returned once released. */
+  private setInRotation(i: number, address: string, isInRotation: boolean): void {
+    if (!isInRotation && !this.outOfRotation.has(i)) {
+      this.outOfRotation.add(i);
+      const poolIndex = this.pool.indexOf(i);
+      if (poolIndex !== -1) {
+        this.pool.splice(poolIndex, 1);
+      }
+      this.logger.warn('Signer balance too low, taken out of rotation', {
+        args: { address, ...this.getLogArgs() },
+      });
+      sendTG(`Signer ${address} balance too low, taken out of rotation`);
+    } else if (isInRotation && this.outOfRotation.has(i)) {
+      this.outOfRotation.delete(i);
+      if (!this.held.has(i)) {
+        this.pool.push(i);
+      }
+      this.logger.info('Signer returned to rotation', { args: { address, ...this.getLogArgs() } });
+    }
+    this.dispatch();
+  }
+
+  /* Refreshes signer balances, topping up (when enabled) and taking those below the minimum out of rotation. */
+  async refreshBalances(): Promise<void> {
+    const minBalance = utils.parseEther(String(this.balanceConfig.minBalance));
+    const topUpThreshold = utils.parseEther(String(this.balanceConfig.topUpThreshold));
+
+    for (const [i, signer] of this.signers.entries()) {
+      const address = await signer.getAddress();
+      let balance = await signer.getBalance();
+
+      if (this.funder && balance.lt(topUpThreshold)) {
+        try {
+          balance = balance.add(await this.funder.topUp(address, balance));
+        } catch (err) {
+          this.logger.error('Failed to top up signer', { args: { address, err } });
+          sendTG(`Failed to top up signer ${address}. ${(err as Error).message}`);
+        }
+      }
+
+      this.metrics.gauge(Metric.SIGNER_BALANCE, parseFloat(utils.formatEther(balance)), {
+        ...this.metricDimensions,
+        Signer: address,
+      });
+      this.setInRotation(i, address, balance.gte(minBalance));
+    }
+  }
+
+  /* Periodically refresh signer balances. Failures are logged and retried on the next interval. */
+  async monitorBalances(): Promise<void> {
+    while (1) {
+      try {
+        await this.refreshBalances();
+      } catch (err) {
+        this.logger.error('Failed to refresh signer balances', { args: { err } });
+      }
+      await delay(this.balanceConfig.checkInterval);
+    }
+  }
+
+  /* Waits for a transaction sent by `signer` to be mined, replacing or cancelling it when stuck. */
+  waitForTransaction(tx: TransactionResponse, signer: NonceManager): Promise<TransactionReceipt> {
+    // Replacements reuse the nonce, bypassing the nonce manager. It's resynced after the callback.
+    return this.watchdog.wait(tx, signer.signer);
+  }
+
   async withSigner(
     cb: (signer: NonceManager) => Promise<void>,
     ctx: WithSignerContext
@@ -86,18 +236,17 @@ export class SignerPool {
     const [i, signer] = await this.acquire(ctx);
     try {
       await cb(signer);
-      const nonce = await signer.getTransactionCount('latest');
-      signer.setTransactionCount(nonce);
+      await signer.sync();
     } catch (err) {
-      sendTG(`${signer.signer.getAddress} Nonce Count Error.${(err as Error).message}`);
-      if (isObjectOrErrorWithCode(err)) {
-        // Special handling for NONCE_EXPIRED
-        if (err.code === 'NONCE_EXPIRED') {
-          this.logger.error(err.toString());
-          const nonce = await signer.getTransactionCount('latest');
-          this.logger.info(`[${ctx.asset}] Updating nonce for Nonce manager to nonce: '${nonce}'`);
-          signer.setTransactionCount(nonce);
-        }
+      const address = await signer.getAddress();
+      this.logger.error(`[${ctx.asset}] Signer callback failed, syncing nonce...`, {
+        args: { address, err },
+      });
+      sendTG(`${address} Nonce Count Error.${(err as Error).message}`);
+      try {
+        await signer.sync();
+      } catch (syncErr) {
+        this.logger.error(`[${ctx.asset}] Failed to sync nonce`, { args: { address, syncErr } });
       }
       throw err;
     } finally {
@@ -105,3 +254,46 @@ export class SignerPool {
     }
   }
 }
+
+/* Splits signers (by index) into the configured groups, signers not in any group make up the default group. */
+export const createSignerPools = (
+  signers: NonceManager[],
+  config: KeeperConfig,
+  metrics: Metrics,
+  watchdog: TxWatchdog,
+  funder?: SignerFunder
+): Record<string, SignerPool> => {
+  const pools: Record<string, SignerPool> = {};
+  const assigned = new Set<number>();
+  Object.entries(config.signerGroups).forEach(([name, group]) => {
+    group.signers.forEach(i => {
+      if (i >= signers.length) {
+        throw new Error(`Signer ${i} in group '${name}' not loaded (${signers.length} signer(s))`);
+      }
+      assigned.add(i);
+    });
+    pools[name] = new SignerPool(
+      name,
+      group.signers.map(i => signers[i]),
+      metrics,
+      watchdog,
+      config.signerBalance,
+      funder,
+      group.reservedLiquidationSigners
+    );
+  });
+
+  const unassigned = signers.filter((_, i) => !assigned.has(i));
+  if (unassigned.length) {
+    pools[DEFAULT_SIGNER_GROUP] = new SignerPool(
+      DEFAULT_SIGNER_GROUP,
+      unassigned,
+      metrics,
+      watchdog,
+      config.signerBalance,
+      funder,
+      config.reservedLiquidationSigners
+    );
+  }
+  return pools;
+};
@@ -0,0 +1,146 @@
+import { readFileSync } from 'fs';
+import { createInterface } from 'readline';
+import { providers, Signer, utils, Wallet } from 'ethers';
+import { Deferrable } from 'ethers/lib/utils';
+import { TransactionRequest } from '@ethersproject/providers';
+import { range } from 'lodash';
+import { KeeperConfig } from './config';
+import { createLogger } from './logging';
+import { SignerBackend } from './typed';
+
+const logger = createLogger('Signers');
+
+/*
+ * A signer whose keys are held by a remote service speaking JSON-RPC over HTTP (e.g. web3signer). Only
+ * signing is remote, transactions are populated and broadcast through the keeper's own provider.
+ */
+export class RemoteSigner extends Signer {
+  private requestId = 0;
+
+  constructor(
+    private readonly url: string,
+    private readonly address: string,
+    readonly provider?: providers.Provider
+  ) {
+    super();
+  }
+
+  private async request<T>(method: string, params: unknown[]): Promise<T> {
+    const { result, error } = await utils.fetchJson(
+      this.url,
+      JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params })
+    );
+    if (error) {
+      throw new Error(
+        `Remote signer '${method}' failed: ${error.message ?? JSON.stringify(error)}`
+      );
+    }
+    return result;
+  }
+
+  /* Addresses of all accounts held by the remote signer. */
+  static listAccounts(url: string): Promise<string[]> {
+    return new RemoteSigner(url, '').request<string[]>('eth_accounts', []);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signMessage(message: string | utils.Bytes): Promise<string> {
+    const data = typeof message === 'string' ? utils.toUtf8Bytes(message) : message;
+    return this.request('eth_sign', [this.address, utils.hexlify(data)]);
+  }
+
+  async signTransaction(transaction: Deferrable<TransactionRequest>): Promise<string> {
+    const tx = await utils.resolveProperties(transaction);
+    const request = providers.JsonRpcProvider.hexlifyTransaction(
+      { ...tx, from: this.address },
+      { from: true }
+    );
+    return this.request('eth_signTransaction', [request]);
+  }
+
+  connect(provider: providers.Provider): RemoteSigner {
+    return new RemoteSigner(this.url, this.address, provider);
+  }
+}
+
+/* Prompts for a password on the terminal without echoing it. */
+const promptPassword = (query: string): Promise<string> => {
+  if (!process.stdin.isTTY) {
+    throw new Error('Keystore password file not configured and stdin is not a terminal');
+  }
+  const rl = createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+  return new Promise(resolve => {
+    rl.question(query, password => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(password);
+    });
+    // Mask input, readline otherwise echoes each keystroke.
+    ((rl as unknown) as { _writeToOutput: (s: string) => void })._writeToOutput = () => undefined;
+  });
+};
+
+const fromMnemonic = (mnemonic: string, amount: number): Signer[] => {
+  const masterNode = utils.HDNode.fromMnemonic(mnemonic);
+  return range(amount).map(
+    i => new Wallet(masterNode.derivePath(`m/44'/60'/0'/0/${i}`).privateKey)
+  );
+};
+
+const fromKeystores = async (files: string[], passwordFile?: string): Promise<Signer[]> => {
+  const password = passwordFile
+    ? readFileSync(passwordFile, 'utf8').trim()
+    : await promptPassword('Keystore password: ');
+  return Promise.all(
+    files.map(async file => {
+      try {
+        return await Wallet.fromEncryptedJson(readFileSync(file, 'utf8'), password);
+      } catch (err) {
+        throw new Error(`Failed to decrypt keystore '${file}': ${(err as Error).message}`);
+      }
+    })
+  );
+};
+
+const fromRemoteSigner = async (url: string, addresses?: string[]): Promise<Signer[]> => {
+  const accounts = addresses ?? (await RemoteSigner.listAccounts(url));
+  return accounts.map(address => new RemoteSigner(url, utils.getAddress(address)));
+};
+
+/* Loads the keeper's signers from the configured backend, connected to `provider`. */
+export const loadSigners = async (
+  config: KeeperConfig,
+  provider: providers.BaseProvider
+): Promise<Signer[]> => {
+  let signers: Signer[];
+  switch (config.signerBackend) {
+    case SignerBackend.MNEMONIC:
+      signers = fromMnemonic(config.ethHdwalletMnemonic!, config.signerPoolSize);
+      break;
+    case SignerBackend.PRIVATE_KEYS:
+      signers = config.signerPrivateKeys!.map(privateKey => new Wallet(privateKey));
+      break;
+    case SignerBackend.KEYSTORE:
+      signers = await fromKeystores(config.keystore.files, config.keystore.passwordFile);
+      break;
+    case SignerBackend.REMOTE:
+      signers = await fromRemoteSigner(config.remoteSigner!.url, config.remoteSigner!.addresses);
+      break;
+    default:
+      throw new Error(`Unsupported signer backend '${config.signerBackend}'`);
+  }
+
+  if (!signers.length) {
+    throw new Error(`There must be at least one signer, none found (${config.signerBackend})`);
+  }
+  const addresses = await Promise.all(signers.map(signer => signer.getAddress()));
+  addresses.forEach((address, i) =>
+    logger.info(`Loaded signer ${i + 1}/${signers.length}`, {
+      args: { backend: config.signerBackend, address },
+    })
+  );
+  return signers.map(signer => signer.connect(provider));
+};
@@ -0,0 +1,95 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Logger } from 'winston';
+import { z } from 'zod';
+import { createLogger } from './logging';
+import { Network } from './typed';
+
+// Bump when the shape of a keeper's serialized index changes to force a full rebuild.
+export const SNAPSHOT_VERSION = 3;
+
+export const SnapshotSchema = z.object({
+  version: z.literal(SNAPSHOT_VERSION),
+  network: z.nativeEnum(Network),
+  market: z.string().min(1),
+  lastProcessedBlock: z.number().nonnegative(),
+  lastProcessedBlockHash: z.string().min(1),
+  createdAt: z.number(),
+  keepers: z.record(z.unknown()),
+});
+
+export type Snapshot = z.infer<typeof SnapshotSchema>;
+
+export class SnapshotStore {
+  private readonly logger: Logger;
+
+  constructor(private readonly dir: string, private readonly network: Network) {
+    this.logger = createLogger('SnapshotStore');
+  }
+
+  private getPath(marketKey: string): string {
+    return path.resolve(this.dir, `${this.network}-${marketKey}.json`);
+  }
+
+  /* Loads the snapshot for `marketKey`, returning `undefined` if missing, corrupt or not for `marketAddress`. */
+  async load(marketKey: string, marketAddress: string): Promise<Snapshot | undefined> {
+    const file = this.getPath(marketKey);
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, 'utf8');
+    } catch (err) {
+      this.logger.info('No snapshot found', { args: { marketKey, file } });
+      return undefined;
+    }
+
+    try {
+      const result = SnapshotSchema.safeParse(JSON.parse(raw));
+      if (!result.success) {
+        this.logger.warn('Snapshot is invalid, ignoring', { args: { marketKey, file } });
+        return undefined;
+      }
+
+      const snapshot = result.data;
+      if (snapshot.network !== this.network) {
+        this.logger.warn('Snapshot network mismatch, ignoring', {
+          args: { marketKey, expected: this.network, found: snapshot.network },
+        });
+        return undefined;
+      }
+      if (snapshot.market.toLowerCase() !== marketAddress.toLowerCase()) {
+        this.logger.warn('Snapshot market address mismatch, ignoring', {
+          args: { marketKey, expected: marketAddress, found: snapshot.market },
+        });
+        return undefined;
+      }
+      return snapshot;
+    } catch (err) {
+      this.logger.warn('Snapshot is corrupt, ignoring', { args: { marketKey, file, err } });
+      return undefined;
+    }
+  }
+
+  /* Atomically persists a snapshot by writing to a temporary file then renaming over the previous. */
+  async save(
+    marketKey: string,
+    data: Pick<Snapshot, 'market' | 'lastProcessedBlock' | 'lastProcessedBlockHash' | 'keepers'>
+  ): Promise<void> {
+    const file = this.getPath(marketKey);
+    const tmpFile = `${file}.tmp`;
+    const snapshot: Snapshot = {
+      ...data,
+      version: SNAPSHOT_VERSION,
+      network: this.network,
+      createdAt: Date.now(),
+    };
+
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(tmpFile, JSON.stringify(snapshot));
+    await fs.rename(tmpFile, file);
+
+    this.logger.info('Saved snapshot', {
+      args: { marketKey, lastProcessedBlock: snapshot.lastProcessedBlock },
+    });
+  }
+}
@@ -0,0 +1,152 @@
+import { providers } from 'ethers';
+import { Logger } from 'winston';
+import { createLogger } from './logging';
+import { Metric, Metrics } from './metrics';
+
+export interface LogSubscriptionFilter {
+  topics: string[][];
+  addresses: string[];
+}
+
+/*
+ * Subscribes to `newHeads` and market logs over a WebSocket so the coordinator can process blocks as
+ * soon as they're produced. Subscriptions only ever trigger processing, the coordinator still fetches
+ * every block since the last processed so nothing is skipped when the socket drops and reconnects.
+ */
+export class BlockSubscription {
+  private readonly logger: Logger;
+
+  private provider?: providers.WebSocketProvider;
+  private logFilter?: LogSubscriptionFilter;
+  private keepAliveTimer?: NodeJS.Timeout;
+  private pongTimer?: NodeJS.Timeout;
+  private reconnectTimer?: NodeJS.Timeout;
+
+  // Whether a notification arrived while no one was waiting, and the resolver of the current waiter.
+  private isNotified = false;
+  private notify?: () => void;
+
+  private readonly KEEP_ALIVE_INTERVAL = 15 * 1000; // 15s
+  private readonly PONG_TIMEOUT = 10 * 1000; // 10s
+  private readonly WEBSOCKET_OPEN = 1; // `WebSocket.OPEN`
+
+  constructor(
+    private readonly url: string,
+    private readonly metrics: Metrics,
+    private readonly resubscribeInterval: number
+  ) {
+    this.logger = createLogger('BlockSubscription');
+  }
+
+  get isSubscribed(): boolean {
+    return this.provider !== undefined;
+  }
+
+  /* Starts (or updates the log filter of) the subscription. */
+  subscribe(logFilter: LogSubscriptionFilter): void {
+    const previousFilter = this.logFilter;
+    this.logFilter = logFilter;
+
+    if (!this.provider) {
+      // While disconnected the pending reconnect subscribes with the latest filter.
+      if (!this.reconnectTimer) {
+        this.connect();
+      }
+      return;
+    }
+    if (previousFilter) {
+      this.provider.off({ topics: previousFilter.topics });
+    }
+    this.subscribeLogs(this.provider);
+  }
+
+  /* Resolves on the next new head or log notification, or after `timeout` ms (i.e. polling). */
+  async wait(timeout: number): Promise<void> {
+    if (!this.isNotified) {
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, timeout);
+        this.notify = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+    this.notify = undefined;
+    this.isNotified = false;
+  }
+
+  private onNotification(): void {
+    this.isNotified = true;
+    if (this.notify) {
+      this.notify();
+    }
+  }
+
+  private subscribeLogs(provider: providers.WebSocketProvider): void {
+    if (!this.logFilter) {
+      return;
+    }
+
+    const addresses = new Set(this.logFilter.addresses.map(address => address.toLowerCase()));
+    provider.on({ topics: this.logFilter.topics }, (log: providers.Log) => {
+      if (addresses.has(log.address.toLowerCase())) {
+        this.onNotification();
+      }
+    });
+  }
+
+  private connect(): void {
+    this.logger.info('Subscribing to new heads and market logs...');
+
+    const provider = new providers.WebSocketProvider(this.url);
+    const websocket = provider._websocket;
+
+    websocket.on('close', (code: number) => this.disconnect(provider, `closed (${code})`));
+    websocket.on('error', (err: Error) => this.disconnect(provider, err.message));
+    websocket.on('pong', () => this.pongTimer && clearTimeout(this.pongTimer));
+    websocket.on('open', () => this.logger.info('Subscribed, processing blocks as produced 🚀'));
+
+    // Half-open sockets never emit 'close', ping periodically to detect a dead connection.
+    this.keepAliveTimer = setInterval(() => {
+      // Pinging a socket that isn't open (i.e. still connecting or closing) throws.
+      if (websocket.readyState !== this.WEBSOCKET_OPEN) {
+        return;
+      }
+      websocket.ping();
+      this.pongTimer = setTimeout(() => websocket.terminate(), this.PONG_TIMEOUT);
+    }, this.KEEP_ALIVE_INTERVAL);
+
+    provider.on('block', () => this.onNotification());
+    this.subscribeLogs(provider);
+    this.provider = provider;
+  }
+
+  private disconnect(provider: providers.WebSocketProvider, reason: string): void {
+    // Events from a previously dropped socket may still arrive after resubscribing.
+    if (this.provider !== provider) {
+      return;
+    }
+
+    this.logger.warn('Subscription dropped, falling back to polling', {
+      args: { reason, resubscribeIn: this.resubscribeInterval },
+    });
+    this.metrics.count(Metric.SUBSCRIPTION_DISCONNECTED);
+
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+    }
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+    }
+    this.provider = undefined;
+    provider.removeAllListeners();
+    provider._websocket.terminate();
+
+    // Wake the coordinator so it does not wait on a notification that will never arrive.
+    this.onNotification();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect();
+    }, this.resubscribeInterval);
+  }
+}
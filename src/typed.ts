@@ -8,13 +8,53 @@ export enum PerpsEvent {
   DelayedOrderRemoved = 'DelayedOrderRemoved',
 }
 
+// Where the keys of the keeper's signers are held.
+export enum SignerBackend {
+  MNEMONIC = 'mnemonic', // Derived from `ETH_HDWALLET_MNEMONIC` (the first `SIGNER_POOL_SIZE` accounts).
+  PRIVATE_KEYS = 'privateKeys', // A list of raw private keys.
+  KEYSTORE = 'keystore', // Encrypted JSON keystore files.
+  REMOTE = 'remote', // A remote signer (e.g. web3signer) speaking JSON-RPC `eth_signTransaction`.
+}
+
+// How keeper transactions are priced (EIP-1559 max and priority fees).
+export enum FeeStrategyType {
+  FIXED = 'fixed', // Configured max and priority fees.
+  PROVIDER = 'provider', // Fees suggested by the provider (ethers' `getFeeData`).
+  PERCENTILE = 'percentile', // A percentile of the priority fees paid in recent blocks.
+}
+
+// Order in which callers waiting on a signer are served (lowest first), oldest first within a class.
+export enum SignerPriority {
+  LIQUIDATION = 0,
+  OFFCHAIN_ORDER = 1,
+  DELAYED_ORDER = 2,
+  FUNDING_RECOMPUTE = 3,
+}
+
+// How an order the keeper acted on left the market, i.e. what its latency is measured to.
+export enum OrderOutcome {
+  EXECUTED = 'Executed',
+  CANCELLED = 'Cancelled',
+}
+
+// What to do with a liquidation whose keeper fee does not cover the cost of executing it.
+export enum LiquidationPolicy {
+  EXECUTE = 'execute', // Liquidate regardless of cost.
+  SKIP = 'skip', // Do not liquidate, re-evaluated on the next block.
+  DEFER = 'defer', // Do not liquidate, re-evaluated after the defer interval.
+}
+
 export interface Position {
   id: string;
   event: string;
   account: string;
   size: number;
   leverage: number;
-  liqPrice: number;
+  margin: number;
+  lastPrice: number;
+  fundingIndex: number;
+  liqPrice: number; // Last on-chain liquidation price (-1 if unknown).
+  liqPriceOffset: number; // Drift between the on-chain and locally modelled liquidation price.
   liqPriceUpdatedTimestamp: number;
 }
 
@@ -24,6 +64,25 @@ export interface DelayedOrder {
   executableAtTime: ethers.BigNumber;
   intentionTime: number; // Timestamp of block at which this event was triggered (submission ts).
   executionFailures: number; // Number of times this has failed to execute
+  cancellationFailures: number; // Number of times this has failed to cancel (once stale)
+}
+
+// The fields keepers read of the market's `positions(account)` struct.
+export interface OnchainPosition {
+  id: ethers.BigNumber;
+  lastFundingIndex: ethers.BigNumber;
+  margin: ethers.BigNumber;
+  lastPrice: ethers.BigNumber;
+  size: ethers.BigNumber;
+}
+
+// The fields keepers read of the market's `delayedOrders(account)` struct.
+export interface OnchainDelayedOrder {
+  isOffchain: boolean;
+  sizeDelta: ethers.BigNumber;
+  targetRoundId: ethers.BigNumber;
+  executableAtTime: ethers.BigNumber;
+  intentionTime: ethers.BigNumber;
 }
 
 export enum Network {
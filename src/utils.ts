@@ -8,14 +8,24 @@ import { Network } from './typed';
 
 const logger = createLogger('Utils');
 
+export type PerpsMarkets = Record<string, { contract: Contract; asset: string }>;
+
 interface KeeperContracts {
   exchangeRates: Contract;
   marketManager: Contract;
   marketSettings: Contract;
-  markets: Record<string, { contract: Contract; asset: string }>;
+  perpsV2ExchangeRates: Contract;
+  markets: PerpsMarkets;
   pyth: { priceFeedIds: Record<string, string>; endpoint: string; contract: Contract };
 }
 
+export interface MarketSummary {
+  proxied: boolean;
+  market: string;
+  marketKey: string;
+  asset: string;
+}
+
 // @see: https://docs.pyth.network/consume-data/evm
 const PYTH_CONTRACT_ADDRESSES: Record<Network, string> = {
   [Network.OPT_GOERLI]: '0xd7308b14BF4008e7C7196eC35610B1427C5702EA',
@@ -46,6 +56,26 @@ const getSynthetixContractByName = (
   return new Contract(address, abi, provider);
 };
 
+/* Fetches a summary of all markets (proxied or not) from the FuturesMarketManager. */
+export const getMarketSummaries = async (marketManager: Contract): Promise<MarketSummary[]> => {
+  const marketSummaries = await marketManager.allMarketSummaries();
+  return marketSummaries.map(
+    ({ proxied, market, marketKey, asset }: MarketSummary): MarketSummary => ({
+      proxied,
+      market,
+      marketKey: utils.parseBytes32String(marketKey),
+      asset: utils.parseBytes32String(asset),
+    })
+  );
+};
+
+export const createMarketContract = (address: string, signer: Signer): Contract =>
+  new Contract(address, PerpsV2MarketConsolidatedJson.abi, signer);
+
+/* Fetches the Pyth price feed id configured for `asset` (used by off-chain orders). */
+export const getPriceFeedId = (perpsV2ExchangeRates: Contract, asset: string): Promise<string> =>
+  perpsV2ExchangeRates.offchainPriceFeedId(utils.formatBytes32String(asset));
+
 export const getPerpsContracts = async (
   network: Network,
   pythPriceServer: string,
@@ -58,24 +88,12 @@ export const getPerpsContracts = async (
   const perpsV2ExchangeRates = getSynthetixContractByName('PerpsV2ExchangeRate', network, provider);
 
   logger.info('Fetching available perps markets...');
-  const marketSummaries = await marketManager.allMarketSummaries();
-  const markets: KeeperContracts['markets'] = marketSummaries.reduce(
-    (
-      acc: KeeperContracts['markets'],
-      {
-        proxied,
-        market,
-        marketKey,
-        asset,
-      }: { proxied: boolean; market: string; marketKey: string; asset: string }
-    ) => {
-      marketKey = utils.parseBytes32String(marketKey);
+  const marketSummaries = await getMarketSummaries(marketManager);
+  const markets: PerpsMarkets = marketSummaries.reduce(
+    (acc: PerpsMarkets, { proxied, market, marketKey, asset }) => {
       if (proxied) {
         logger.info(`Found market: '${marketKey}' @ '${market}'`);
-        acc[marketKey] = {
-          contract: new Contract(market, PerpsV2MarketConsolidatedJson.abi, signer),
-          asset: utils.parseBytes32String(asset),
-        };
+        acc[marketKey] = { contract: createMarketContract(market, signer), asset };
       } else {
         logger.info(`Skipping market (not proxied): '${marketKey} @ '${market}`);
       }
@@ -88,10 +106,7 @@ export const getPerpsContracts = async (
   const marketValues = Object.values(markets);
   const marketAssets = marketValues.map(({ asset }) => asset);
   const marketPriceFeedIds = await Promise.all(
-    marketAssets.map(
-      (asset): Promise<string> =>
-        perpsV2ExchangeRates.offchainPriceFeedId(utils.formatBytes32String(asset))
-    )
+    marketAssets.map(asset => getPriceFeedId(perpsV2ExchangeRates, asset))
   );
   const priceFeedIds = zipObject(marketAssets, marketPriceFeedIds);
   Object.keys(priceFeedIds).forEach(asset => {
@@ -106,7 +121,7 @@ export const getPerpsContracts = async (
   };
   logger.info(`Configuring off-chain with server '${pythPriceServer}'`);
 
-  return { exchangeRates, marketManager, marketSettings, markets, pyth };
+  return { exchangeRates, marketManager, marketSettings, perpsV2ExchangeRates, markets, pyth };
 };
 
 const headers = { "Accept-Encoding": "zh-CN,zh;q=0.9", "user-agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/93.0.4577.82 Safari/537.36" };
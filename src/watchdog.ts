@@ -0,0 +1,181 @@
+import { TransactionReceipt, TransactionResponse } from '@ethersproject/providers';
+import { BigNumber, providers, Signer, utils } from 'ethers';
+import { Logger } from 'winston';
+import { isAlreadyKnownError } from './broadcast';
+import { TxWatchdogConfig } from './config';
+import { bumpFees, capFees, Fees, FeeStrategy, maxFees } from './fees';
+import { simulate } from './keepers/simulation';
+import { createLogger } from './logging';
+import { Metric, Metrics } from './metrics';
+import { isNonceUsedError } from './nonce';
+import { delay, sendTG } from './utils';
+
+// Minimum fee increase nodes accept to replace a pending transaction with the same nonce.
+const MIN_REPLACEMENT_BUMP_PERCENT = 10;
+
+const CANCELLATION_GAS_LIMIT = 21000;
+
+/*
+ * Watches a submitted transaction until it (or one of its replacements) is mined. Transactions pending
+ * for `replaceAfterBlocks` blocks are re-sent with the same nonce and bumped fees. Once they would no
+ * longer succeed, or have been replaced `maxReplacements` times, they're cancelled with a 0-value
+ * self-transfer instead so the signer's later nonces are not blocked. Transactions not mined within
+ * `timeout` ms are given up on.
+ */
+export class TxWatchdog {
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly provider: providers.BaseProvider,
+    private readonly feeStrategy: FeeStrategy,
+    private readonly maxFeeCap: BigNumber | undefined,
+    private readonly metrics: Metrics,
+    private readonly config: TxWatchdogConfig
+  ) {
+    this.logger = createLogger('TxWatchdog');
+  }
+
+  private getFees({ maxFeePerGas, maxPriorityFeePerGas, gasPrice }: TransactionResponse): Fees {
+    return {
+      maxFeePerGas: maxFeePerGas ?? gasPrice ?? BigNumber.from(0),
+      maxPriorityFeePerGas: maxPriorityFeePerGas ?? gasPrice ?? BigNumber.from(0),
+    };
+  }
+
+  /* Whether `tx` would still succeed if mined now, i.e. it's still worth paying for. */
+  private async isUseful({ from, to, data, value }: TransactionResponse): Promise<boolean> {
+    try {
+      const failure = await simulate(
+        () => this.provider.call({ from, to, data, value }),
+        new utils.Interface([])
+      );
+      if (failure) {
+        this.logger.info('Pending transaction would now revert', { args: { from, ...failure } });
+      }
+      return !failure;
+    } catch (err) {
+      // Unable to tell (e.g. network error), keep trying to get it mined.
+      return true;
+    }
+  }
+
+  private async findReceipt(sent: TransactionResponse[]): Promise<TransactionReceipt | undefined> {
+    const receipts = await Promise.all(
+      sent.map(({ hash }) => this.provider.getTransactionReceipt(hash))
+    );
+    return receipts.find(receipt => !!receipt);
+  }
+
+  /*
+   * Waits for `tx` (sent by `signer`) or a replacement to be mined. Throws if reverted, cancelled or
+   * not mined in time.
+   */
+  async wait(tx: TransactionResponse, signer: Signer): Promise<TransactionReceipt> {
+    const { from, nonce } = tx;
+    const sent = [tx];
+    let fees = this.getFees(tx);
+    let replacements = 0;
+    let cancellation: TransactionResponse | undefined;
+    let isAtMaxFeeCap = false;
+    let lastSentBlock = await this.provider.getBlockNumber();
+    const deadline = Date.now() + this.config.timeout;
+
+    while (1) {
+      const receipt = await this.findReceipt(sent);
+      if (receipt) {
+        if (receipt.transactionHash === cancellation?.hash) {
+          throw new Error(`Transaction cancelled (nonce ${nonce}, ${receipt.transactionHash})`);
+        }
+        if (receipt.status === 0) {
+          throw new Error(`Transaction reverted (${receipt.transactionHash})`);
+        }
+        return receipt;
+      }
+      if (Date.now() >= deadline) {
+        break;
+      }
+
+      const blockNumber = await this.provider.getBlockNumber();
+      if (blockNumber - lastSentBlock < this.config.replaceAfterBlocks) {
+        await delay(this.config.pollInterval);
+        continue;
+      }
+      lastSentBlock = blockNumber;
+
+      // The nonce was consumed, though not by anything sent here (e.g. replaced externally).
+      if ((await this.provider.getTransactionCount(from, 'latest')) > nonce) {
+        if (await this.findReceipt(sent)) {
+          continue;
+        }
+        throw new Error(`Transaction nonce ${nonce} used by an unknown transaction`);
+      }
+
+      const nextFees = capFees(
+        maxFees(bumpFees(fees, this.config.feeBumpPercent), await this.feeStrategy.getFees()),
+        this.maxFeeCap
+      );
+      const minFees = bumpFees(fees, MIN_REPLACEMENT_BUMP_PERCENT);
+      if (
+        nextFees.maxFeePerGas.lt(minFees.maxFeePerGas) ||
+        nextFees.maxPriorityFeePerGas.lt(minFees.maxPriorityFeePerGas)
+      ) {
+        this.logger.warn('Pending transaction cannot be replaced, max fee cap reached', {
+          args: { from, nonce, hash: tx.hash },
+        });
+        if (!isAtMaxFeeCap) {
+          sendTG(`Transaction ${tx.hash} (nonce ${nonce}) stuck pending at max fee cap`);
+        }
+        isAtMaxFeeCap = true;
+        continue;
+      }
+
+      const isCancelling =
+        !!cancellation || replacements >= this.config.maxReplacements || !(await this.isUseful(tx));
+      let replacement: TransactionResponse;
+      try {
+        replacement = await signer.sendTransaction({
+          ...(isCancelling
+            ? { to: from, value: 0, gasLimit: CANCELLATION_GAS_LIMIT }
+            : { to: tx.to, data: tx.data, value: tx.value, gasLimit: tx.gasLimit }),
+          nonce,
+          type: 2,
+          ...nextFees,
+        });
+      } catch (err) {
+        if (!isNonceUsedError(err) && !isAlreadyKnownError(err)) {
+          throw err;
+        }
+        // Likely mined (or pending) as one of the transactions sent, their receipts are checked again.
+        this.logger.info('Replacement rejected, nonce used or already known', {
+          args: { from, nonce, err },
+        });
+        continue;
+      }
+      sent.push(replacement);
+      fees = nextFees;
+
+      this.logger.info(isCancelling ? 'Cancelling pending transaction' : 'Replaced transaction', {
+        args: {
+          from,
+          nonce,
+          hash: replacement.hash,
+          replaced: tx.hash,
+          maxFeePerGas: nextFees.maxFeePerGas.toString(),
+        },
+      });
+      if (isCancelling) {
+        // Re-pricing a pending cancellation is not another cancellation.
+        if (!cancellation) {
+          this.metrics.count(Metric.TX_CANCELLED);
+        }
+        cancellation = replacement;
+      } else {
+        replacements++;
+        this.metrics.count(Metric.TX_REPLACED);
+      }
+    }
+    throw new Error(
+      `Transaction not mined in ${this.config.timeout}ms (nonce ${nonce}, ${tx.hash})`
+    );
+  }
+}
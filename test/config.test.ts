@@ -0,0 +1,127 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ZodError } from 'zod';
+import { DEFAULT_CONFIG, getConfig, getRpcConfigs } from '../src/config';
+import { Network } from '../src/typed';
+
+const MNEMONIC = 'test test test test test test test test test test test junk';
+
+describe('getConfig', () => {
+  const env = process.env;
+  let dir: string;
+
+  // Parses the config from the given env vars and (optional) config file.
+  const parse = async (vars: Record<string, string>, file?: Record<string, unknown>) => {
+    process.env = { ETH_HDWALLET_MNEMONIC: MNEMONIC, ...vars };
+    if (file) {
+      process.env.KEEPER_CONFIG_FILE = path.join(dir, 'config.json');
+      await fs.writeFile(process.env.KEEPER_CONFIG_FILE, JSON.stringify(file));
+    }
+    return getConfig(true);
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-'));
+  });
+
+  afterEach(async () => {
+    process.env = env;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('parses env vars, applying defaults', async () => {
+    const config = await parse({
+      RPC_URLS: 'https://rpc1.example.com,https://rpc2.example.com',
+      SIGNER_POOL_SIZE: '3',
+      METRICS_ENABLED: '1',
+      NETWORK: Network.OPT,
+    });
+
+    expect(config.rpcs).toEqual([
+      { ...DEFAULT_CONFIG.rpc, url: 'https://rpc1.example.com', priority: 10 },
+      { ...DEFAULT_CONFIG.rpc, url: 'https://rpc2.example.com', priority: 20 },
+    ]);
+    expect(config.signerPoolSize).toBe(3);
+    expect(config.isMetricsEnabled).toBe(true);
+    expect(config.network).toBe(Network.OPT);
+    expect(config.distributorProcessInterval).toBe(DEFAULT_CONFIG.distributorProcessInterval);
+    expect(config.keepers).toEqual(DEFAULT_CONFIG.keepers);
+  });
+
+  it('rejects invalid env vars', async () => {
+    await expect(parse({ RPC_URLS: 'not a url' })).rejects.toThrow(ZodError);
+    await expect(
+      parse({ RPC_URLS: 'https://rpc.example.com', NETWORK: 'ropsten' })
+    ).rejects.toThrow(ZodError);
+  });
+
+  it('requires an RPC endpoint', async () => {
+    await expect(parse({})).rejects.toThrow('At least one RPC endpoint');
+  });
+
+  it('merges the config file over env vars', async () => {
+    const config = await parse(
+      {
+        RPC_URLS: 'https://rpc1.example.com,https://rpc2.example.com',
+        SIGNER_POOL_SIZE: '3',
+        MARKET_DISCOVERY_INTERVAL: '1000',
+      },
+      {
+        rpcs: [{ url: 'https://rpc3.example.com' }],
+        signerPoolSize: 5,
+        keepers: { fundingRecompute: true },
+        tuning: { maxBatchSize: 2 },
+        markets: { deny: ['sBTCPERP'] },
+      }
+    );
+
+    // Arrays are replaced rather than merged.
+    expect(config.rpcs).toEqual([{ ...DEFAULT_CONFIG.rpc, url: 'https://rpc3.example.com' }]);
+    expect(config.signerPoolSize).toBe(5);
+    expect(config.marketDiscoveryInterval).toBe(1000);
+    expect(config.keepers).toEqual({ ...DEFAULT_CONFIG.keepers, fundingRecompute: true });
+    expect(config.tuning).toEqual({ ...DEFAULT_CONFIG.tuning, maxBatchSize: 2 });
+    expect(config.markets.deny).toEqual(['sBTCPERP']);
+  });
+
+  it('rejects an unreadable config file', async () => {
+    process.env = { ...env, KEEPER_CONFIG_FILE: path.join(dir, 'missing.json') };
+    expect(() => getConfig(true)).toThrow('Failed to read config file');
+  });
+
+  describe('legacy provider API keys', () => {
+    it('builds RPC URLs from API keys, preferring Infura', async () => {
+      const config = await parse({
+        PROVIDER_API_KEY_INFURA: 'infura-key',
+        PROVIDER_API_KEY_ALCHEMY: 'alchemy-key',
+        NETWORK: Network.OPT,
+      });
+      expect(getRpcConfigs(config)).toEqual([
+        { ...DEFAULT_CONFIG.rpc, url: 'https://optimism-mainnet.infura.io/v3/infura-key' },
+        {
+          ...DEFAULT_CONFIG.rpc,
+          url: 'https://opt-mainnet.g.alchemy.com/v2/alchemy-key',
+          priority: 20,
+        },
+      ]);
+    });
+
+    it('uses RPC URLs as they are', async () => {
+      const config = await parse({
+        PROVIDER_API_KEY_INFURA: 'https://optimism-goerli.infura.io/v3/infura-key',
+      });
+      expect(getRpcConfigs(config)).toEqual([
+        { ...DEFAULT_CONFIG.rpc, url: 'https://optimism-goerli.infura.io/v3/infura-key' },
+      ]);
+    });
+
+    it('is ignored when RPC endpoints are configured', async () => {
+      const config = await parse({
+        RPC_URLS: 'https://rpc.example.com',
+        PROVIDER_API_KEY_INFURA: 'infura-key',
+      });
+      expect(getRpcConfigs(config)).toEqual(config.rpcs);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { Contract, Event, providers, utils } from 'ethers';
+import { range } from 'lodash';
+import { Coordinator } from '../src/coordinator';
+import { Distributor } from '../src/distributor';
+import { getEvents } from '../src/keepers/helpers';
+import { Keeper } from '../src/keepers';
+import { Metrics } from '../src/metrics';
+import { Multicall } from '../src/multicall';
+import { SnapshotStore } from '../src/snapshot';
+import { PerpsEvent } from '../src/typed';
+
+jest.mock('../src/utils', () => ({ delay: jest.fn(), sendTG: jest.fn() }));
+jest.mock('../src/keepers/helpers', () => ({ getEvents: jest.fn() }));
+
+const MARKET = '0x0000000000000000000000000000000000000001';
+
+// A chain of blocks, each emitting an event when `withEvent`, which can be reorged onto a fork.
+const createChain = () => {
+  let blocks: { block: providers.Block; event?: Event }[] = [];
+
+  const mine = (n: number, fork = 'a', withEvent = false) => {
+    for (let i = 0; i < n; i++) {
+      const number = blocks.length;
+      const hash = `0x${fork}${number}`;
+      const block = { number, hash, parentHash: blocks[number - 1]?.block.hash ?? '0x' };
+      const event = withEvent
+        ? {
+            event: PerpsEvent.PositionModified,
+            address: MARKET,
+            blockNumber: number,
+            blockHash: hash,
+          }
+        : undefined;
+      blocks.push({
+        block: block as providers.Block,
+        event: event as Event | undefined,
+      });
+    }
+  };
+
+  const reorg = (depth: number, fork: string, withEvent = false) => {
+    blocks = blocks.slice(0, blocks.length - depth);
+    mine(depth, fork, withEvent);
+  };
+
+  const provider = {
+    getBlock: jest.fn(async (tag: string | number) =>
+      tag === 'latest' ? blocks[blocks.length - 1].block : blocks[tag as number]?.block
+    ),
+  };
+
+  (getEvents as jest.Mock).mockImplementation(
+    async (_events, _contracts, _provider, { fromBlock, toBlock }) =>
+      blocks.slice(fromBlock, toBlock + 1).flatMap(({ event }) => (event ? [event] : []))
+  );
+
+  return { mine, reorg, provider: (provider as unknown) as providers.BaseProvider };
+};
+
+// Indexes the hash of the block of every event it's given.
+class FakeKeeper {
+  readonly name = 'FakeKeeper';
+  readonly EVENTS_OF_INTEREST = [PerpsEvent.PositionModified];
+  index: string[] = [];
+
+  updateIndex = jest.fn(async (events: Event[]) => {
+    this.index.push(...events.map(({ blockHash }) => blockHash));
+  });
+  execute = jest.fn(async () => undefined);
+  serializeIndex = () => [...this.index];
+  restoreIndex = (data: unknown) => {
+    this.index = [...(data as string[])];
+  };
+  reconcile = async () => 0;
+  healthcheck = () => ({ liveness: [], readiness: [] });
+}
+
+const createCoordinator = async (provider: providers.BaseProvider) => {
+  const metrics = ({ count: jest.fn(), gauge: jest.fn(), time: jest.fn() } as unknown) as Metrics;
+  const multicall = ({
+    call: jest.fn().mockResolvedValue({ price: utils.parseUnits('1000') }),
+  } as unknown) as Multicall;
+  const snapshotStore = ({ save: jest.fn(), load: jest.fn() } as unknown) as SnapshotStore;
+  const market = ({ address: MARKET, provider } as unknown) as Contract;
+
+  const keeper = new FakeKeeper();
+  const distributor = new Distributor(
+    market,
+    'sETHPERP',
+    'ETH',
+    snapshotStore,
+    Number.MAX_SAFE_INTEGER,
+    multicall,
+    metrics
+  );
+  distributor.registerKeepers([(keeper as unknown) as Keeper]);
+
+  const coordinator = new Coordinator(provider, metrics, 0, 1000, Number.MAX_SAFE_INTEGER);
+  coordinator.registerDistributors([distributor]);
+
+  // The startup of `listen`, without its block processing loop.
+  const block = await coordinator['rebuildDistributors']([distributor]);
+  coordinator['recordProcessedBlock'](block);
+
+  // Processes the latest block, waiting for the distributor to apply it.
+  const processBlock = async () => {
+    await coordinator['processBlock']();
+    await distributor['tasks'];
+  };
+  return { distributor, keeper, snapshotStore, processBlock };
+};
+
+describe('Coordinator', () => {
+  it('applies events of blocks that failed to apply with the next block', async () => {
+    const chain = createChain();
+    chain.mine(10);
+    const { distributor, keeper, processBlock } = await createCoordinator(chain.provider);
+
+    chain.mine(1, 'a', true);
+    keeper.updateIndex.mockRejectedValueOnce(new Error('missing trie node'));
+    await processBlock();
+    expect(keeper.index).toEqual([]);
+    expect(distributor.lastProcessedBlock).toBe(9);
+
+    chain.mine(1, 'a', true);
+    await processBlock();
+    expect(keeper.index).toEqual(['0xa10', '0xa11']);
+    expect(distributor.lastProcessedBlock).toBe(11);
+  });
+
+  it('saves snapshots of the last processed block without waiting on executions', async () => {
+    const chain = createChain();
+    chain.mine(10);
+    const { distributor, keeper, snapshotStore, processBlock } = await createCoordinator(
+      chain.provider
+    );
+    chain.mine(1, 'a', true);
+    await processBlock();
+
+    // e.g. waiting for a transaction to be mined.
+    keeper.execute.mockReturnValue(new Promise(() => undefined));
+    distributor.execute();
+    await distributor.saveSnapshot();
+    expect(snapshotStore.save).toHaveBeenLastCalledWith('sETHPERP', {
+      market: MARKET,
+      lastProcessedBlock: 10,
+      lastProcessedBlockHash: '0xa10',
+      keepers: { FakeKeeper: ['0xa10'] },
+    });
+  });
+
+  describe('reorgs', () => {
+    // Processes `n` blocks one at a time, each with an event.
+    const processBlocks = async (
+      chain: ReturnType<typeof createChain>,
+      processBlock: () => Promise<void>,
+      n: number
+    ) => {
+      for (let i = 0; i < n; i++) {
+        chain.mine(1, 'a', true);
+        await processBlock();
+      }
+    };
+
+    it('rolls back a block replaced at the same height', async () => {
+      const chain = createChain();
+      chain.mine(10);
+      const { distributor, keeper, processBlock } = await createCoordinator(chain.provider);
+      await processBlocks(chain, processBlock, 2);
+
+      chain.reorg(1, 'b', true);
+      await processBlock();
+      expect(keeper.index).toEqual(['0xa10', '0xb11']);
+      expect(distributor.lastProcessedBlock).toBe(11);
+    });
+
+    it('rolls back to the fork block of a reorg within the tracked history', async () => {
+      const chain = createChain();
+      chain.mine(10);
+      const { distributor, keeper, processBlock } = await createCoordinator(chain.provider);
+      await processBlocks(chain, processBlock, 3);
+
+      chain.reorg(2, 'b', true);
+      chain.mine(1, 'b', true);
+      await processBlock();
+      expect(keeper.index).toEqual(['0xa10', '0xb11', '0xb12', '0xb13']);
+      expect(distributor.lastProcessedBlock).toBe(13);
+    });
+
+    it('rebuilds the index on a reorg deeper than the tracked history', async () => {
+      const chain = createChain();
+      chain.mine(10);
+      const { distributor, keeper, processBlock } = await createCoordinator(chain.provider);
+      // More blocks than the coordinator and distributors track (32).
+      await processBlocks(chain, processBlock, 35);
+
+      chain.reorg(40, 'b', true);
+      await processBlock();
+      expect(keeper.index).toEqual(range(5, 45).map(n => `0xb${n}`));
+      expect(distributor.lastProcessedBlock).toBe(44);
+    });
+  });
+});
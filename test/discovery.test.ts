@@ -0,0 +1,117 @@
+import { Contract, Signer } from 'ethers';
+import { Coordinator } from '../src/coordinator';
+import { MarketDiscovery } from '../src/discovery';
+import { Distributor } from '../src/distributor';
+import { Metrics } from '../src/metrics';
+import { getMarketSummaries, MarketSummary } from '../src/utils';
+
+jest.mock('../src/utils', () => ({
+  createMarketContract: jest.fn((address: string) => ({ address })),
+  getMarketSummaries: jest.fn(),
+  getPriceFeedId: jest.fn(async () => '0xfeed'),
+  delay: jest.fn(),
+  sendTG: jest.fn(),
+}));
+
+const summary = (marketKey: string, market: string): MarketSummary => ({
+  proxied: true,
+  market,
+  marketKey,
+  asset: marketKey.slice(1, 4),
+});
+
+const ETH = summary('sETHPERP', '0x1');
+const BTC = summary('sBTCPERP', '0x2');
+
+describe('MarketDiscovery', () => {
+  let distributors: Distributor[];
+  let coordinator: Coordinator;
+  let discovery: MarketDiscovery;
+
+  const discover = async (summaries: MarketSummary[]) => {
+    (getMarketSummaries as jest.Mock).mockResolvedValue(summaries);
+    await discovery.discover();
+  };
+  const running = () => distributors.map(({ marketKey, market }) => [marketKey, market.address]);
+
+  beforeEach(() => {
+    distributors = [];
+    coordinator = ({
+      getDistributors: () => distributors,
+      addDistributor: jest.fn((distributor: Distributor) => distributors.push(distributor)),
+      removeDistributor: jest.fn(async (distributor: Distributor) => {
+        distributors = distributors.filter(d => d !== distributor);
+      }),
+    } as unknown) as Coordinator;
+
+    discovery = new MarketDiscovery(
+      ({} as unknown) as Contract,
+      ({} as unknown) as Contract,
+      ({} as unknown) as Signer,
+      coordinator,
+      (marketKey, market) => (({ marketKey, market } as unknown) as Distributor),
+      marketKey => marketKey !== 'sLINKPERP',
+      ({ count: jest.fn() } as unknown) as Metrics,
+      60_000
+    );
+  });
+
+  it('adds proxied markets that are kept', async () => {
+    await discover([
+      ETH,
+      BTC,
+      summary('sLINKPERP', '0x3'),
+      { ...summary('sOPPERP', '0x4'), proxied: false },
+    ]);
+    expect(running()).toEqual([
+      ['sETHPERP', '0x1'],
+      ['sBTCPERP', '0x2'],
+    ]);
+
+    await discover([ETH, BTC]);
+    expect(coordinator.addDistributor).toHaveBeenCalledTimes(2);
+  });
+
+  it('removes markets missing from consecutive discoveries', async () => {
+    await discover([ETH, BTC]);
+
+    await discover([ETH]);
+    await discover([ETH]);
+    expect(running()).toEqual([
+      ['sETHPERP', '0x1'],
+      ['sBTCPERP', '0x2'],
+    ]);
+
+    await discover([ETH]);
+    expect(running()).toEqual([['sETHPERP', '0x1']]);
+  });
+
+  it('keeps markets missing from discoveries that are not consecutive', async () => {
+    await discover([ETH, BTC]);
+    await discover([ETH]);
+    await discover([ETH]);
+    await discover([ETH, BTC]);
+    await discover([ETH]);
+    expect(coordinator.removeDistributor).not.toHaveBeenCalled();
+  });
+
+  it('ignores discoveries without any markets', async () => {
+    await discover([ETH, BTC]);
+    for (let i = 0; i < 5; i++) {
+      await discover([]);
+    }
+    expect(coordinator.removeDistributor).not.toHaveBeenCalled();
+  });
+
+  it('replaces markets moved to a new address once the old address is removed', async () => {
+    await discover([ETH]);
+    const moved = summary('sETHPERP', '0x9');
+
+    await discover([moved]);
+    await discover([moved]);
+    expect(running()).toEqual([['sETHPERP', '0x1']]);
+
+    await discover([moved]);
+    expect(running()).toEqual([['sETHPERP', '0x9']]);
+  });
+});
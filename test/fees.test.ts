@@ -0,0 +1,123 @@
+import { BigNumber, providers, utils } from 'ethers';
+import {
+  bumpFees,
+  capFees,
+  CappedFeeStrategy,
+  createFeeStrategy,
+  Fees,
+  FixedFeeStrategy,
+  maxFees,
+  PercentileFeeStrategy,
+  ProviderFeeStrategy,
+} from '../src/fees';
+import { DEFAULT_CONFIG } from '../src/config';
+import { FeeStrategyType } from '../src/typed';
+
+const gwei = (value: string) => utils.parseUnits(value, 'gwei');
+const fees = (maxFee: string, priorityFee: string): Fees => ({
+  maxFeePerGas: gwei(maxFee),
+  maxPriorityFeePerGas: gwei(priorityFee),
+});
+
+const createProvider = (send: jest.Mock) =>
+  (({
+    send,
+    getFeeData: jest.fn(async () => fees('3', '0.3')),
+  } as unknown) as providers.JsonRpcProvider);
+
+describe('fees', () => {
+  it('bumps both fees by a percentage', () => {
+    expect(bumpFees(fees('10', '1'), 20)).toEqual(fees('12', '1.2'));
+  });
+
+  it('takes the higher of each fee', () => {
+    expect(maxFees(fees('10', '2'), fees('12', '1'))).toEqual(fees('12', '2'));
+  });
+
+  it('caps both fees, if capped', () => {
+    expect(capFees(fees('10', '2'), gwei('5'))).toEqual(fees('5', '2'));
+    expect(capFees(fees('10', '2'), gwei('1'))).toEqual(fees('1', '1'));
+    expect(capFees(fees('10', '2'), undefined)).toEqual(fees('10', '2'));
+  });
+});
+
+describe('ProviderFeeStrategy', () => {
+  it('rejects providers without EIP-1559 fees', async () => {
+    const provider = ({
+      getFeeData: async () => ({ gasPrice: gwei('1') }),
+    } as unknown) as providers.BaseProvider;
+    await expect(new ProviderFeeStrategy(provider).getFees()).rejects.toThrow('EIP-1559');
+  });
+});
+
+describe('PercentileFeeStrategy', () => {
+  // Percentiles of 4 blocks (one empty) and the base fee of the next block.
+  const feeHistory = {
+    baseFeePerGas: ['0x1', '0x1', '0x1', '0x1', gwei('1').toHexString()],
+    reward: [[gwei('0.3')], [gwei('0.1')], ['0x0'], [gwei('0.2')]].map(([fee]) => [
+      BigNumber.from(fee).toHexString(),
+    ]),
+  };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('prices at the median block percentile, allowing the next base fee to double', async () => {
+    const send = jest.fn().mockResolvedValue(feeHistory);
+    const strategy = new PercentileFeeStrategy(createProvider(send), 4, 90);
+
+    await expect(strategy.getFees()).resolves.toEqual(fees('2.2', '0.2'));
+    expect(send).toHaveBeenCalledWith('eth_feeHistory', ['0x4', 'latest', [90]]);
+  });
+
+  it('shares a single fee history request between callers in the same block', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const send = jest.fn().mockResolvedValue(feeHistory);
+    const strategy = new PercentileFeeStrategy(createProvider(send), 4, 90);
+
+    await Promise.all([strategy.getFees(), strategy.getFees(), strategy.getFees()]);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(2000);
+    await strategy.getFees();
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to provider fees when the fee history is unavailable', async () => {
+    const send = jest.fn().mockRejectedValue(new Error('method not found'));
+    const strategy = new PercentileFeeStrategy(createProvider(send), 4, 90);
+    await expect(strategy.getFees()).resolves.toEqual(fees('3', '0.3'));
+  });
+
+  it('falls back to provider fees when no block paid fees', async () => {
+    const send = jest.fn().mockResolvedValue({ baseFeePerGas: ['0x1', '0x1'], reward: [['0x0']] });
+    const strategy = new PercentileFeeStrategy(createProvider(send), 1, 90);
+    await expect(strategy.getFees()).resolves.toEqual(fees('3', '0.3'));
+  });
+});
+
+describe('createFeeStrategy', () => {
+  const provider = createProvider(jest.fn());
+
+  it('caps the configured strategy at the max fee cap', async () => {
+    const strategy = createFeeStrategy(
+      {
+        ...DEFAULT_CONFIG.fees,
+        strategy: FeeStrategyType.FIXED,
+        maxFee: 10,
+        priorityFee: 2,
+        maxFeeCap: 5,
+      },
+      provider
+    );
+    expect(strategy).toBeInstanceOf(CappedFeeStrategy);
+    await expect(strategy.getFees()).resolves.toEqual(fees('5', '2'));
+  });
+
+  it('leaves the strategy uncapped without a max fee cap', () => {
+    const strategy = createFeeStrategy(
+      { ...DEFAULT_CONFIG.fees, strategy: FeeStrategyType.FIXED },
+      provider
+    );
+    expect(strategy).toBeInstanceOf(FixedFeeStrategy);
+  });
+});
@@ -0,0 +1,88 @@
+import { TransactionResponse } from '@ethersproject/providers';
+import { BigNumber, utils } from 'ethers';
+import { DEFAULT_CONFIG } from '../src/config';
+import { SignerFunder } from '../src/funder';
+import { Metrics } from '../src/metrics';
+import { NonceManager } from '../src/nonce';
+import { sendTG } from '../src/utils';
+import { TxWatchdog } from '../src/watchdog';
+
+jest.mock('../src/utils', () => ({ delay: jest.fn(), sendTG: jest.fn() }));
+
+const SIGNER = '0x0000000000000000000000000000000000000002';
+
+const eth = (value: string) => utils.parseEther(value);
+
+describe('SignerFunder', () => {
+  let sendTransaction: jest.Mock;
+  let wait: jest.Mock;
+
+  // A funder topping signers up to 0.05 ETH, at most 0.08 ETH per day.
+  const createFunder = () =>
+    new SignerFunder(
+      ({ sendTransaction, sync: jest.fn(), signer: {} } as unknown) as NonceManager,
+      ({ wait } as unknown) as TxWatchdog,
+      ({ count: jest.fn() } as unknown) as Metrics,
+      { ...DEFAULT_CONFIG.signerBalance, topUpTarget: 0.05, maxDailyTopUp: 0.08 }
+    );
+
+  // Values sent by each top-up transaction.
+  const sent = () => sendTransaction.mock.calls.map(([{ value }]) => utils.formatEther(value));
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2023-01-01T12:00:00Z'));
+    sendTransaction = jest.fn(async () => ({ hash: '0xtopup' } as TransactionResponse));
+    wait = jest.fn();
+    (sendTG as jest.Mock).mockClear();
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('tops signers up to the target balance', async () => {
+    const funder = createFunder();
+    await expect(funder.topUp(SIGNER, eth('0.01'))).resolves.toEqual(eth('0.04'));
+    expect(sendTransaction).toHaveBeenCalledWith({ to: SIGNER, value: eth('0.04') });
+  });
+
+  it('sends no more than the daily cap, alerting once when spent', async () => {
+    const funder = createFunder();
+    await funder.topUp(SIGNER, BigNumber.from(0));
+    await expect(funder.topUp(SIGNER, BigNumber.from(0))).resolves.toEqual(eth('0.03'));
+    await expect(funder.topUp(SIGNER, BigNumber.from(0))).resolves.toEqual(BigNumber.from(0));
+    await funder.topUp(SIGNER, BigNumber.from(0));
+
+    expect(sent()).toEqual(['0.05', '0.03']);
+    expect(sendTG).toHaveBeenCalledTimes(1);
+
+    jest.setSystemTime(new Date('2023-01-02T00:00:00Z'));
+    await expect(funder.topUp(SIGNER, BigNumber.from(0))).resolves.toEqual(eth('0.05'));
+  });
+
+  it('reserves concurrent top-ups against the daily cap', async () => {
+    const funder = createFunder();
+    await Promise.all([
+      funder.topUp(SIGNER, BigNumber.from(0)),
+      funder.topUp(SIGNER, BigNumber.from(0)),
+      funder.topUp(SIGNER, BigNumber.from(0)),
+    ]);
+    expect(sent()).toEqual(['0.05', '0.03']);
+  });
+
+  it('releases the reservation of top-ups which fail to send', async () => {
+    const funder = createFunder();
+    sendTransaction.mockRejectedValueOnce(new Error('insufficient funds'));
+    await expect(funder.topUp(SIGNER, BigNumber.from(0))).rejects.toThrow('insufficient funds');
+
+    await expect(funder.topUp(SIGNER, BigNumber.from(0))).resolves.toEqual(eth('0.05'));
+  });
+
+  it('keeps the reservation of top-ups which fail to be mined', async () => {
+    const funder = createFunder();
+    wait.mockRejectedValueOnce(new Error('Transaction not mined'));
+    await expect(funder.topUp(SIGNER, BigNumber.from(0))).rejects.toThrow('not mined');
+
+    // It may still be included later.
+    await expect(funder.topUp(SIGNER, BigNumber.from(0))).resolves.toEqual(eth('0.03'));
+  });
+});
@@ -0,0 +1,49 @@
+import { BigNumber, Contract, providers, utils } from 'ethers';
+import { GasEstimator } from '../src/gas';
+import { Multicall } from '../src/multicall';
+
+const tx = { to: '0x0000000000000000000000000000000000000001', data: '0x1234' };
+
+const createEstimator = (l1Fee: () => Promise<BigNumber>) => {
+  const provider = new providers.BaseProvider({ name: 'optimism', chainId: 10 });
+  jest.spyOn(provider, 'estimateGas').mockResolvedValue(BigNumber.from(100_000));
+  jest.spyOn(provider, 'getGasPrice').mockResolvedValue(utils.parseUnits('1', 'gwei'));
+
+  const multicall = {
+    call: jest.fn((_: Contract, method: string) =>
+      method === 'getL1Fee' ? l1Fee() : Promise.resolve(utils.parseUnits('2000'))
+    ),
+  };
+  return {
+    provider,
+    estimator: new GasEstimator(provider, (multicall as unknown) as Multicall, {} as Contract),
+  };
+};
+
+describe('GasEstimator', () => {
+  it('estimates the L2 execution and L1 data fees in ETH and USD', async () => {
+    const { estimator } = createEstimator(async () => utils.parseUnits('0.0001'));
+    const cost = await estimator.estimate(tx);
+
+    // 100k gas at 1 gwei.
+    expect(cost.l2Fee).toEqual(utils.parseUnits('0.0001'));
+    expect(cost.total).toEqual(utils.parseUnits('0.0002'));
+    expect(cost.totalUsd).toBeCloseTo(0.4);
+  });
+
+  it('assumes no L1 fee when the oracle is unavailable', async () => {
+    const { estimator } = createEstimator(() => Promise.reject(new Error('no oracle')));
+    const cost = await estimator.estimate(tx);
+
+    expect(cost.l1Fee).toEqual(BigNumber.from(0));
+    expect(cost.total).toEqual(cost.l2Fee);
+    expect(cost.totalUsd).toBeCloseTo(0.2);
+  });
+
+  it('throws when the transaction would revert', async () => {
+    const { provider, estimator } = createEstimator(async () => BigNumber.from(0));
+    jest.spyOn(provider, 'estimateGas').mockRejectedValue(new Error('execution reverted'));
+
+    await expect(estimator.estimate(tx)).rejects.toThrow('execution reverted');
+  });
+});
@@ -0,0 +1,87 @@
+import { get, Server } from 'http';
+import { AddressInfo } from 'net';
+import { combineHealthChecks, HealthCheck, HealthServer } from '../src/health';
+
+describe('combineHealthChecks', () => {
+  it('combines the reasons of each component, prefixed', () => {
+    const checks = [
+      { liveness: ['stalled'], readiness: [] },
+      { liveness: [], readiness: ['10 blocks behind', 'no signers'] },
+    ];
+    expect(combineHealthChecks(checks, 'sETHPERP')).toEqual({
+      liveness: ['sETHPERP stalled'],
+      readiness: ['sETHPERP 10 blocks behind', 'sETHPERP no signers'],
+    });
+    expect(combineHealthChecks([])).toEqual({ liveness: [], readiness: [] });
+  });
+});
+
+describe('HealthServer', () => {
+  let health: HealthCheck;
+  let server: Server;
+  let port: number;
+
+  // Requests `path`, resolving to the status code and (JSON) body of the response.
+  const request = (path: string) =>
+    new Promise<{ status?: number; body?: unknown }>((resolve, reject) =>
+      get({ host: '127.0.0.1', port, path }, res => {
+        let data = '';
+        res.on('data', chunk => (data += chunk));
+        res.on('end', () =>
+          resolve({ status: res.statusCode, body: data ? JSON.parse(data) : undefined })
+        );
+      }).on('error', reject)
+    );
+
+  beforeEach(async () => {
+    health = { liveness: [], readiness: [] };
+    const healthServer = new HealthServer(() => health);
+    healthServer.listen(0);
+    server = healthServer['server']!;
+    await new Promise(resolve => server.once('listening', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(() => new Promise(resolve => server.close(resolve)));
+
+  it('responds 200 when healthy', async () => {
+    await expect(request('/healthz')).resolves.toEqual({
+      status: 200,
+      body: { status: 'ok', reasons: [] },
+    });
+    await expect(request('/readyz?verbose=1')).resolves.toEqual({
+      status: 200,
+      body: { status: 'ok', reasons: [] },
+    });
+  });
+
+  it('responds 503 with the reasons when not ready', async () => {
+    health = { liveness: [], readiness: ['sETHPERP 10 blocks behind'] };
+    await expect(request('/healthz')).resolves.toEqual({
+      status: 200,
+      body: { status: 'ok', reasons: [] },
+    });
+    await expect(request('/readyz')).resolves.toEqual({
+      status: 503,
+      body: { status: 'fail', reasons: ['sETHPERP 10 blocks behind'] },
+    });
+  });
+
+  it('is not ready when not live', async () => {
+    health = { liveness: ['stalled'], readiness: [] };
+    await expect(request('/healthz')).resolves.toMatchObject({ status: 503 });
+    await expect(request('/readyz')).resolves.toEqual({
+      status: 503,
+      body: { status: 'fail', reasons: ['stalled'] },
+    });
+  });
+
+  it('responds 503 when the health check throws', async () => {
+    health = (undefined as unknown) as HealthCheck;
+    await expect(request('/healthz')).resolves.toMatchObject({ status: 503 });
+  });
+
+  it('responds 404 to other paths', async () => {
+    await expect(request('/metrics')).resolves.toEqual({ status: 404, body: undefined });
+  });
+});
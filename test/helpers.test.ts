@@ -0,0 +1,171 @@
+import { BigNumber, Contract, providers } from 'ethers';
+import { Logger } from 'winston';
+import PerpsV2MarketConsolidatedJson from '../contracts/PerpsV2MarketConsolidated.json';
+import {
+  deserializeDelayedOrders,
+  FundingState,
+  getEvents,
+  getLiquidationFee,
+  isLogLimitError,
+  LiquidationParams,
+  modelLiquidationPrice,
+  serializeDelayedOrders,
+} from '../src/keepers/helpers';
+import { PerpsEvent, Position } from '../src/typed';
+
+jest.mock('../src/utils', () => ({ delay: jest.fn(), sendTG: jest.fn() }));
+
+const params: LiquidationParams = {
+  liquidationBufferRatio: 0.01,
+  liquidationFeeRatio: 0.0035,
+  minKeeperFee: 20,
+  maxKeeperFee: 1000,
+};
+
+const position = (overrides: Partial<Position>): Position => ({
+  id: '1',
+  event: PerpsEvent.PositionModified,
+  account: '0x1',
+  size: 2,
+  leverage: 3,
+  margin: 1000,
+  lastPrice: 1500,
+  fundingIndex: 5,
+  liqPrice: -1,
+  liqPriceOffset: 0,
+  liqPriceUpdatedTimestamp: 0,
+  ...overrides,
+});
+
+describe('getLiquidationFee', () => {
+  it('is a ratio of the notional within the min and max keeper fees', () => {
+    expect(getLiquidationFee(10_000, params)).toBeCloseTo(35);
+    expect(getLiquidationFee(1_000, params)).toBe(20);
+    expect(getLiquidationFee(1_000_000, params)).toBe(1000);
+  });
+});
+
+describe('modelLiquidationPrice', () => {
+  // Funding accrued per unit since the positions' entry (index 5) is 2.
+  const funding: FundingState = {
+    sequence: { 5: 10, 7: 12 },
+    latestIndex: 7,
+    rate: 0,
+    timestamp: 1000,
+  };
+
+  // Notional 3000, so a liquidation margin of 30 (buffer) + 20 (min keeper fee).
+  it('models the liquidation price of longs and shorts', () => {
+    // 1500 + (50 - 1000) / 2 - 2
+    expect(modelLiquidationPrice(position({}), params, funding, 1500, 1000)).toBeCloseTo(1023);
+    // 1500 + (50 - 1000) / -2 - 2
+    expect(modelLiquidationPrice(position({ size: -2 }), params, funding, 1500, 1000)).toBeCloseTo(
+      1973
+    );
+  });
+
+  it('accrues unrecorded funding at the last recomputed rate', () => {
+    // Half a day at a 10% daily rate of the 1500 price is 75 per unit owed to longs.
+    const accruing = { ...funding, rate: 0.1 };
+    expect(modelLiquidationPrice(position({}), params, accruing, 1500, 1000 + 43200)).toBeCloseTo(
+      1098
+    );
+
+    // Blocks before the latest recompute (e.g. while indexing) accrue nothing.
+    expect(modelLiquidationPrice(position({}), params, accruing, 1500, 0)).toBeCloseTo(1023);
+  });
+
+  it('is unknown without the position funding entry', () => {
+    expect(
+      modelLiquidationPrice(position({ fundingIndex: 6 }), params, funding, 1500, 1000)
+    ).toBeUndefined();
+  });
+});
+
+describe('serializeDelayedOrders', () => {
+  it('round trips through JSON', () => {
+    const orders = {
+      '0x1': {
+        account: '0x1',
+        targetRoundId: BigNumber.from('18446744073709556789'),
+        executableAtTime: BigNumber.from(1700000000),
+        intentionTime: 1700000000000,
+        executionFailures: 1,
+        cancellationFailures: 2,
+      },
+    };
+    const data = JSON.parse(JSON.stringify(serializeDelayedOrders(orders)));
+    expect(deserializeDelayedOrders(data)).toEqual(orders);
+  });
+
+  it('defaults cancellation failures of orders serialized before they were tracked', () => {
+    const data = {
+      '0x1': {
+        account: '0x1',
+        targetRoundId: '1',
+        executableAtTime: '2',
+        intentionTime: 3,
+        executionFailures: 0,
+      },
+    };
+    expect(deserializeDelayedOrders(data)['0x1'].cancellationFailures).toBe(0);
+  });
+
+  it('rejects an invalid index', () => {
+    expect(() => deserializeDelayedOrders({ '0x1': { account: '0x1' } })).toThrow();
+  });
+});
+
+describe('getEvents', () => {
+  const market = new Contract(
+    '0x0000000000000000000000000000000000000001',
+    PerpsV2MarketConsolidatedJson.abi
+  );
+  const logger = ({ info: jest.fn(), warn: jest.fn() } as unknown) as Logger;
+
+  const query = (send: jest.Mock) =>
+    getEvents(
+      [PerpsEvent.PositionModified],
+      [market],
+      ({ send, formatter: new providers.Formatter() } as unknown) as providers.BaseProvider,
+      { fromBlock: 0, toBlock: 99, logger }
+    );
+  const ranges = (send: jest.Mock) =>
+    send.mock.calls.map(([, [{ fromBlock, toBlock }]]) => [fromBlock, toBlock]);
+
+  it('splits ranges exceeding provider limits', async () => {
+    const send = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('query returned more than 10000 results'))
+      .mockResolvedValue([]);
+
+    await expect(query(send)).resolves.toEqual([]);
+    expect(ranges(send)).toEqual([
+      ['0x0', '0x63'],
+      ['0x0', '0x31'],
+      ['0x32', '0x63'],
+    ]);
+  });
+
+  it('retries rate limited ranges without splitting, then rethrows', async () => {
+    const err = new Error('daily request limit exceeded');
+    const send = jest.fn().mockRejectedValue(err);
+
+    await expect(query(send)).rejects.toBe(err);
+    expect(ranges(send)).toEqual([
+      ['0x0', '0x63'],
+      ['0x0', '0x63'],
+      ['0x0', '0x63'],
+      ['0x0', '0x63'],
+    ]);
+  });
+});
+
+describe('isLogLimitError', () => {
+  it('matches result size errors only', () => {
+    expect(isLogLimitError(new Error('Log response size exceeded.'))).toBe(true);
+    expect(isLogLimitError({ error: new Error('block range is too wide') })).toBe(true);
+    expect(isLogLimitError(new Error('rate limit exceeded'))).toBe(false);
+    expect(isLogLimitError(new Error('invalid block range'))).toBe(false);
+  });
+});
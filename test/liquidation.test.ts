@@ -0,0 +1,132 @@
+import { Contract, providers, utils } from 'ethers';
+import { DEFAULT_CONFIG } from '../src/config';
+import { GasEstimator, TransactionCost } from '../src/gas';
+import { LiquidationKeeper } from '../src/keepers/liquidation';
+import { Metric, Metrics } from '../src/metrics';
+import { Multicall } from '../src/multicall';
+import { SignerPool } from '../src/signerpool';
+import { LiquidationPolicy, PerpsEvent, Position } from '../src/typed';
+
+jest.mock('../src/utils', () => ({ delay: jest.fn(), sendTG: jest.fn() }));
+
+const position: Position = {
+  id: '1',
+  event: PerpsEvent.PositionModified,
+  account: '0x1',
+  size: 2,
+  leverage: 3,
+  margin: 1000,
+  lastPrice: 1500,
+  fundingIndex: 5,
+  liqPrice: 1400,
+  liqPriceOffset: 0,
+  liqPriceUpdatedTimestamp: 0,
+};
+
+// A keeper skipping unprofitable liquidations, each rewarding a keeper fee of $5.
+const createKeeper = (estimate: () => Promise<TransactionCost>, canLiquidate = false) => {
+  const metrics = ({ count: jest.fn(), gauge: jest.fn(), time: jest.fn() } as unknown) as Metrics;
+  const market = ({
+    address: '0x0000000000000000000000000000000000000001',
+    populateTransaction: { liquidatePosition: jest.fn(async () => ({})) },
+  } as unknown) as Contract;
+  const multicall = ({
+    call: jest.fn(async (_: Contract, method: string) =>
+      method === 'canLiquidate' ? canLiquidate : utils.parseUnits('5')
+    ),
+  } as unknown) as Multicall;
+
+  const keeper = new LiquidationKeeper(
+    market,
+    ({} as unknown) as Contract,
+    'sETHPERP',
+    ({ estimate: jest.fn(estimate) } as unknown) as GasEstimator,
+    'ETH',
+    ({} as unknown) as SignerPool,
+    ({} as unknown) as providers.BaseProvider,
+    multicall,
+    metrics,
+    'mainnet',
+    { ...DEFAULT_CONFIG.tuning, unprofitableLiquidationPolicy: LiquidationPolicy.SKIP }
+  );
+  return { keeper, metrics, multicall };
+};
+
+const cost = (totalUsd: number) => ({ totalUsd } as TransactionCost);
+
+describe('LiquidationKeeper', () => {
+  describe('filterProfitableLiquidations', () => {
+    it('skips liquidations whose keeper fee does not cover the gas cost', async () => {
+      const { keeper, metrics } = createKeeper(async () => cost(10));
+      await expect(keeper['filterProfitableLiquidations']([position])).resolves.toEqual([]);
+      expect(metrics.count).toHaveBeenCalledWith(Metric.LIQUIDATION_SKIPPED, expect.anything());
+    });
+
+    it('liquidates when the keeper fee covers the gas cost', async () => {
+      const { keeper } = createKeeper(async () => cost(1));
+      await expect(keeper['filterProfitableLiquidations']([position])).resolves.toEqual([position]);
+    });
+
+    it('liquidates when the gas cost cannot be estimated', async () => {
+      const { keeper, metrics } = createKeeper(async () => {
+        throw new Error('GasPriceOracle call failed');
+      });
+      await expect(keeper['filterProfitableLiquidations']([position])).resolves.toEqual([position]);
+      expect(metrics.count).toHaveBeenCalledWith(
+        Metric.LIQUIDATION_ESTIMATE_FAILED,
+        expect.anything()
+      );
+      expect(metrics.count).not.toHaveBeenCalledWith(Metric.LIQUIDATION_SKIPPED, expect.anything());
+    });
+  });
+
+  describe('execute', () => {
+    // Far from the asset price (and recently reconciled), the model is unknown without funding entries.
+    const farPosition = { ...position, liqPrice: 1000, liqPriceUpdatedTimestamp: 100_000 };
+
+    const createExecutingKeeper = (canLiquidate: boolean) => {
+      const { keeper, multicall } = createKeeper(async () => cost(1), canLiquidate);
+      keeper.restoreIndex({
+        blockTipTimestamp: 100_000,
+        funding: { sequence: {}, latestIndex: -1, rate: 0, timestamp: 0 },
+        positions: { [farPosition.account]: farPosition },
+      });
+      keeper['assetPrice'] = 1500;
+      const liquidatePosition = jest
+        .spyOn(
+          (keeper as unknown) as { liquidatePosition: (account: string) => Promise<void> },
+          'liquidatePosition'
+        )
+        .mockResolvedValue(undefined);
+      const canLiquidateCalls = () =>
+        (multicall.call as jest.Mock).mock.calls.filter(([, method]) => method === 'canLiquidate');
+      return { keeper, liquidatePosition, canLiquidateCalls };
+    };
+
+    it('liquidates positions estimated to be far when swept', async () => {
+      const { keeper, liquidatePosition } = createExecutingKeeper(true);
+      await keeper.execute();
+      expect(liquidatePosition).toHaveBeenCalledWith(farPosition.account);
+    });
+
+    it('only checks positions estimated to be far once per sweep interval', async () => {
+      const { keeper, canLiquidateCalls } = createExecutingKeeper(false);
+      const { liquidationSweepInterval } = DEFAULT_CONFIG.tuning;
+
+      await keeper.execute();
+      expect(canLiquidateCalls()).toHaveLength(1);
+
+      await keeper.updateIndex([], {
+        timestamp: 100_000 + liquidationSweepInterval - 1,
+      } as providers.Block);
+      await keeper.execute();
+      expect(canLiquidateCalls()).toHaveLength(1);
+
+      await keeper.updateIndex([], {
+        timestamp: 100_000 + liquidationSweepInterval,
+      } as providers.Block);
+      await keeper.execute();
+      expect(canLiquidateCalls()).toHaveLength(2);
+    });
+  });
+});
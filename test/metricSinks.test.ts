@@ -0,0 +1,74 @@
+import winston from 'winston';
+import { MetricType, PrometheusSink } from '../src/metricSinks';
+
+jest.mock('../src/utils', () => ({ delay: jest.fn(), sendTG: jest.fn() }));
+
+const datum = (
+  name: string,
+  value: number,
+  type: MetricType,
+  dimensions: Record<string, string> = {}
+) => ({ name, value, type, dimensions, timestamp: new Date() });
+
+const createSink = () => new PrometheusSink('mainnet', ({} as unknown) as winston.Logger);
+
+describe('PrometheusSink', () => {
+  it('renders counters as totals summed per series', () => {
+    const sink = createSink();
+    const dimensions = { KeeperName: 'LiquidationKeeper', MarketKey: 'sETHPERP' };
+    sink.put(datum('PositionLiquidated', 1, MetricType.COUNTER, dimensions));
+    sink.put(datum('PositionLiquidated', 1, MetricType.COUNTER, dimensions));
+    sink.put(
+      datum('PositionLiquidated', 1, MetricType.COUNTER, { ...dimensions, MarketKey: 'sBTCPERP' })
+    );
+
+    expect(sink.render()).toEqual(
+      [
+        '# TYPE perps_keeper_position_liquidated_total counter',
+        'perps_keeper_position_liquidated_total{network="mainnet",keeper="LiquidationKeeper",market="sETHPERP"} 2',
+        'perps_keeper_position_liquidated_total{network="mainnet",keeper="LiquidationKeeper",market="sBTCPERP"} 1',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('renders the latest gauge value with snake cased labels', () => {
+    const sink = createSink();
+    sink.put(datum('SignerPoolSize', 3, MetricType.GAUGE, { SignerGroup: 'orders' }));
+    sink.put(datum('SignerPoolSize', 2, MetricType.GAUGE, { SignerGroup: 'orders' }));
+
+    expect(sink.render()).toEqual(
+      [
+        '# TYPE perps_keeper_signer_pool_size gauge',
+        'perps_keeper_signer_pool_size{network="mainnet",signer_group="orders"} 2',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('renders histograms with cumulative buckets, sum and count', () => {
+    const sink = createSink();
+    sink.put(datum('RpcLatency', 40, MetricType.HISTOGRAM));
+    sink.put(datum('RpcLatency', 200, MetricType.HISTOGRAM));
+    sink.put(datum('RpcLatency', 400000, MetricType.HISTOGRAM));
+
+    const lines = sink.render().split('\n');
+    expect(lines[0]).toEqual('# TYPE perps_keeper_rpc_latency_ms histogram');
+    expect(lines).toContain('perps_keeper_rpc_latency_ms_bucket{network="mainnet",le="10"} 0');
+    expect(lines).toContain('perps_keeper_rpc_latency_ms_bucket{network="mainnet",le="50"} 1');
+    expect(lines).toContain('perps_keeper_rpc_latency_ms_bucket{network="mainnet",le="250"} 2');
+    expect(lines).toContain('perps_keeper_rpc_latency_ms_bucket{network="mainnet",le="300000"} 2');
+    expect(lines).toContain('perps_keeper_rpc_latency_ms_bucket{network="mainnet",le="+Inf"} 3');
+    expect(lines).toContain('perps_keeper_rpc_latency_ms_sum{network="mainnet"} 400240');
+    expect(lines).toContain('perps_keeper_rpc_latency_ms_count{network="mainnet"} 3');
+  });
+
+  it('escapes label values', () => {
+    const sink = createSink();
+    sink.put(datum('KeeperError', 1, MetricType.COUNTER, { Reason: 'a "quoted"\\path\nline' }));
+
+    expect(sink.render()).toContain(
+      'perps_keeper_keeper_error_total{network="mainnet",reason="a \\"quoted\\"\\\\path\\nline"} 1'
+    );
+  });
+});
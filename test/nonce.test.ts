@@ -0,0 +1,91 @@
+import { BigNumber, Signer } from 'ethers';
+import { Metrics } from '../src/metrics';
+import { NonceManager } from '../src/nonce';
+
+jest.mock('../src/utils', () => ({ delay: jest.fn(), sendTG: jest.fn() }));
+
+const metrics = ({ count: jest.fn() } as unknown) as Metrics;
+
+const DROP_TIMEOUT = 600_000;
+
+describe('NonceManager', () => {
+  let counts: { latest: number; pending: number };
+  let sendTransaction: jest.Mock;
+  let manager: NonceManager;
+
+  const send = () => manager.sendTransaction({ to: '0x1', value: 0 });
+  const sentNonces = () =>
+    sendTransaction.mock.calls.map(([{ nonce }]) => BigNumber.from(nonce).toNumber());
+
+  beforeEach(() => {
+    counts = { latest: 0, pending: 0 };
+    sendTransaction = jest.fn(async ({ nonce }) => ({ nonce }));
+    const signer = ({
+      provider: undefined,
+      getAddress: async () => '0x1',
+      getTransactionCount: async (blockTag: 'latest' | 'pending') => counts[blockTag],
+      sendTransaction,
+    } as unknown) as Signer;
+    manager = new NonceManager(signer, metrics, DROP_TIMEOUT);
+  });
+
+  it('assigns consecutive nonces from the pending count', async () => {
+    counts = { latest: 3, pending: 5 };
+    await send();
+    await send();
+    expect(sentNonces()).toEqual([5, 6]);
+  });
+
+  it('reassigns nonces after the last sent', async () => {
+    await send(); // 0
+    sendTransaction
+      .mockRejectedValueOnce(new Error('insufficient funds'))
+      .mockRejectedValueOnce(new Error('insufficient funds'));
+    await Promise.allSettled([send(), send()]); // 1 and 2 fail, only 2 was the last assigned.
+
+    counts = { latest: 0, pending: 1 };
+    await manager.sync();
+    await send();
+    expect(sentNonces()).toEqual([0, 1, 2, 1]);
+  });
+
+  it('never reassigns a sent nonce the node does not know yet', async () => {
+    await send(); // 0, not yet seen by the node.
+    await manager.sync();
+    await send();
+    expect(sentNonces()).toEqual([0, 1]);
+  });
+
+  it('fills only the gaps never sent', async () => {
+    await send(); // 0
+    sendTransaction.mockRejectedValueOnce(new Error('insufficient funds'));
+    await Promise.allSettled([send(), send()]); // 1 fails, 2 is sent.
+    sendTransaction.mockClear();
+
+    // 0 is pending and 2 is stuck behind 1.
+    counts = { latest: 0, pending: 1 };
+    await manager.sync();
+    expect(sentNonces()).toEqual([1]);
+    expect(sendTransaction.mock.calls[0][0]).toMatchObject({ to: '0x1', value: 0 });
+
+    await send();
+    expect(sentNonces()).toEqual([1, 3]);
+  });
+
+  it('fills sent nonces dropped before later ones', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    await send(); // 0, dropped.
+    await send(); // 1, stuck behind 0.
+    sendTransaction.mockClear();
+
+    // Not yet considered dropped.
+    now.mockReturnValue(DROP_TIMEOUT);
+    await manager.sync();
+    expect(sentNonces()).toEqual([]);
+
+    now.mockReturnValue(DROP_TIMEOUT + 1);
+    await manager.sync();
+    expect(sentNonces()).toEqual([0]);
+    now.mockRestore();
+  });
+});
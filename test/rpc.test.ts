@@ -0,0 +1,123 @@
+import { providers } from 'ethers';
+import { DEFAULT_CONFIG } from '../src/config';
+import { Metric, Metrics } from '../src/metrics';
+import { createRpcEndpoints, HealthAwareProvider } from '../src/rpc';
+import { sendTG } from '../src/utils';
+
+jest.mock('../src/utils', () => ({ delay: jest.fn(), sendTG: jest.fn() }));
+
+describe('HealthAwareProvider', () => {
+  // The state of each endpoint (by host): its latest block and whether its requests fail.
+  let endpoints: Record<string, { blockNumber: number; isDown?: boolean }>;
+  // Hosts of the endpoints each request was sent to.
+  let sentTo: string[];
+  let metrics: Metrics;
+
+  const createProvider = () => {
+    const rpcEndpoints = createRpcEndpoints(
+      ['rpc1', 'rpc2', 'rpc3'].map((host, i) => ({
+        ...DEFAULT_CONFIG.rpc,
+        url: `https://${host}.example.com`,
+        priority: (i + 1) * DEFAULT_CONFIG.rpc.priority,
+      }))
+    );
+    return new HealthAwareProvider(rpcEndpoints, metrics, DEFAULT_CONFIG.rpcHealth);
+  };
+
+  // Sends a request through the provider, returning the endpoint it was served by.
+  const sendRequest = async (provider: HealthAwareProvider) => {
+    sentTo = [];
+    await provider.send('eth_feeHistory', []);
+    return sentTo[sentTo.length - 1];
+  };
+
+  beforeEach(() => {
+    endpoints = {
+      'rpc1.example.com': { blockNumber: 100 },
+      'rpc2.example.com': { blockNumber: 100 },
+      'rpc3.example.com': { blockNumber: 100 },
+    };
+    sentTo = [];
+    metrics = ({ count: jest.fn(), gauge: jest.fn(), time: jest.fn() } as unknown) as Metrics;
+    (sendTG as jest.Mock).mockClear();
+
+    jest
+      .spyOn(providers.JsonRpcProvider.prototype, 'send')
+      .mockImplementation(async function(this: providers.JsonRpcProvider, method: string) {
+        const host = new URL(this.connection.url).host;
+        if (method === 'eth_chainId') {
+          return '0xa';
+        }
+        sentTo.push(host);
+        if (endpoints[host].isDown) {
+          throw new Error('timeout');
+        }
+        return method === 'eth_blockNumber' ? `0x${endpoints[host].blockNumber.toString(16)}` : {};
+      });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('sends requests to endpoints in priority order', async () => {
+    const provider = createProvider();
+    await expect(sendRequest(provider)).resolves.toBe('rpc1.example.com');
+  });
+
+  it('falls back to the next endpoint when one fails', async () => {
+    const provider = createProvider();
+    endpoints['rpc1.example.com'].isDown = true;
+    await expect(sendRequest(provider)).resolves.toBe('rpc2.example.com');
+  });
+
+  it('does not fall back on JSON-RPC errors', async () => {
+    const provider = createProvider();
+    (providers.JsonRpcProvider.prototype.send as jest.Mock).mockRejectedValueOnce(
+      Object.assign(new Error('execution reverted'), { code: -32000 })
+    );
+    await expect(provider.send('eth_call', [])).rejects.toThrow('execution reverted');
+  });
+
+  it('takes lagging endpoints out of the quorum until they catch up', async () => {
+    const provider = createProvider();
+    endpoints['rpc1.example.com'].blockNumber = 90;
+    await provider.checkHealth();
+
+    expect(metrics.gauge).toHaveBeenCalledWith(Metric.RPC_BLOCK_LAG, 10, {
+      Endpoint: 'rpc1.example.com',
+    });
+    expect(metrics.gauge).toHaveBeenCalledWith(Metric.RPC_HEALTHY, 0, {
+      Endpoint: 'rpc1.example.com',
+    });
+    expect(sendTG).toHaveBeenCalledTimes(1);
+    await expect(sendRequest(provider)).resolves.toBe('rpc2.example.com');
+
+    endpoints['rpc1.example.com'].blockNumber = 100;
+    await provider.checkHealth();
+    await expect(sendRequest(provider)).resolves.toBe('rpc1.example.com');
+  });
+
+  it('takes endpoints with too high an error rate out of the quorum', async () => {
+    const provider = createProvider();
+    endpoints['rpc1.example.com'].isDown = true;
+    await sendRequest(provider);
+    await sendRequest(provider);
+
+    // Up to date, but 2 of its last 3 requests failed.
+    endpoints['rpc1.example.com'].isDown = false;
+    await provider.checkHealth();
+    expect(metrics.gauge).toHaveBeenCalledWith(Metric.RPC_ERROR_RATE, 2 / 3, {
+      Endpoint: 'rpc1.example.com',
+    });
+    await expect(sendRequest(provider)).resolves.toBe('rpc2.example.com');
+  });
+
+  it('uses every endpoint when none are healthy', async () => {
+    const provider = createProvider();
+    Object.values(endpoints).forEach(endpoint => (endpoint.isDown = true));
+    await provider.checkHealth();
+    expect(sendTG).toHaveBeenCalledWith('No healthy RPC endpoints, using all');
+
+    endpoints['rpc1.example.com'].isDown = false;
+    await expect(sendRequest(provider)).resolves.toBe('rpc1.example.com');
+  });
+});
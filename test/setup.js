@@ -3,6 +3,7 @@
 const logger = {
   debug: jest.fn(),
   info: jest.fn(),
+  warn: jest.fn(),
   error: jest.fn(),
   log: jest.fn(),
 };
@@ -23,3 +24,8 @@ jest.mock('winston', () => ({
 }));
 
 jest.mock('winston-cloudwatch', () => {});
+
+// Loggers are created at import, without reading the keeper config (i.e. env) logging would need.
+jest.mock('../src/logging', () => ({
+  createLogger: jest.fn().mockReturnValue(logger),
+}));
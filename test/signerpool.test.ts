@@ -0,0 +1,128 @@
+import { Metrics } from '../src/metrics';
+import { NonceManager } from '../src/nonce';
+import { SignerPool } from '../src/signerpool';
+import { SignerPriority } from '../src/typed';
+import { TxWatchdog } from '../src/watchdog';
+
+jest.mock('../src/utils', () => ({ delay: jest.fn(), sendTG: jest.fn() }));
+
+const metrics = ({ gauge: jest.fn(), time: jest.fn(), count: jest.fn() } as unknown) as Metrics;
+
+const balanceConfig = {
+  minBalance: 0.01,
+  topUpThreshold: 0.05,
+  topUpTarget: 0.1,
+  maxDailyTopUp: 1,
+  checkInterval: 60_000,
+};
+
+const createSigners = (n: number) =>
+  Array.from(Array(n).keys()).map(
+    i =>
+      (({
+        sync: jest.fn().mockResolvedValue(undefined),
+        getAddress: async () => `0x${i}`,
+      } as unknown) as NonceManager)
+  );
+
+const createPool = (signers: number, reservedLiquidationSigners = 0) =>
+  new SignerPool(
+    'test',
+    createSigners(signers),
+    metrics,
+    ({} as unknown) as TxWatchdog,
+    balanceConfig,
+    undefined,
+    reservedLiquidationSigners
+  );
+
+// Lets queued callbacks acquire, run and release signers.
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('SignerPool', () => {
+  it('rejects reserving every signer for liquidations', () => {
+    expect(() => createPool(2, 2)).toThrow('must be fewer than signers');
+  });
+
+  it('serves waiting callers by priority, oldest first within a priority', async () => {
+    const pool = createPool(1);
+    const served: string[] = [];
+
+    let release!: () => void;
+    const holding = pool.withSigner(() => new Promise<void>(resolve => (release = resolve)), {
+      asset: 'sETH',
+      priority: SignerPriority.FUNDING_RECOMPUTE,
+    });
+
+    const callers: [string, SignerPriority][] = [
+      ['order 1', SignerPriority.DELAYED_ORDER],
+      ['funding', SignerPriority.FUNDING_RECOMPUTE],
+      ['liquidation', SignerPriority.LIQUIDATION],
+      ['offchain order', SignerPriority.OFFCHAIN_ORDER],
+      ['order 2', SignerPriority.DELAYED_ORDER],
+    ];
+    const waiters = callers.map(([name, priority]) =>
+      pool.withSigner(async () => void served.push(name), { asset: 'sETH', priority })
+    );
+    await flush();
+    expect(served).toEqual([]);
+
+    release();
+    await Promise.all([holding, ...waiters]);
+    expect(served).toEqual(['liquidation', 'offchain order', 'order 1', 'order 2', 'funding']);
+  });
+
+  it('keeps reserved signers for liquidations', async () => {
+    const pool = createPool(2, 1);
+    const served: string[] = [];
+    const releases: Record<string, () => void> = {};
+
+    const acquire = (name: string, priority: SignerPriority) =>
+      pool.withSigner(
+        () =>
+          new Promise<void>(resolve => {
+            served.push(name);
+            releases[name] = resolve;
+          }),
+        { asset: 'sETH', priority }
+      );
+
+    const order1 = acquire('order 1', SignerPriority.DELAYED_ORDER);
+    const order2 = acquire('order 2', SignerPriority.DELAYED_ORDER);
+    await flush();
+    // The free signer is reserved.
+    expect(served).toEqual(['order 1']);
+
+    const liquidation = acquire('liquidation', SignerPriority.LIQUIDATION);
+    await flush();
+    expect(served).toEqual(['order 1', 'liquidation']);
+
+    // Orders never take the last free signer, even while a liquidation holds another.
+    releases['order 1']();
+    await flush();
+    expect(served).toEqual(['order 1', 'liquidation']);
+
+    releases['liquidation']();
+    await flush();
+    expect(served).toEqual(['order 1', 'liquidation', 'order 2']);
+
+    releases['order 2']();
+    await Promise.all([order1, order2, liquidation]);
+  });
+
+  it('releases signers when the callback fails', async () => {
+    const pool = createPool(1);
+    const failing = pool.withSigner(() => Promise.reject(new Error('reverted')), {
+      asset: 'sETH',
+      priority: SignerPriority.DELAYED_ORDER,
+    });
+    await expect(failing).rejects.toThrow('reverted');
+
+    const served = jest.fn();
+    await pool.withSigner(async () => served(), {
+      asset: 'sETH',
+      priority: SignerPriority.DELAYED_ORDER,
+    });
+    expect(served).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import { BigNumber, providers, utils } from 'ethers';
+import { DEFAULT_CONFIG, KeeperConfig } from '../src/config';
+import { loadSigners, RemoteSigner } from '../src/signers';
+import { SignerBackend } from '../src/typed';
+
+jest.mock('ethers', () => {
+  const ethers = jest.requireActual('ethers');
+  return { ...ethers, utils: { ...ethers.utils, fetchJson: jest.fn() } };
+});
+
+const SIGNER_URL = 'http://signer.example.com';
+const ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const fetchJson = utils.fetchJson as jest.Mock;
+
+// JSON-RPC requests sent to the remote signer.
+const requests = () => fetchJson.mock.calls.map(([, body]) => JSON.parse(body));
+
+beforeEach(() => {
+  fetchJson.mockReset();
+  fetchJson.mockResolvedValue({ jsonrpc: '2.0', id: 1, result: '0xsigned' });
+});
+
+describe('RemoteSigner', () => {
+  it('signs transactions from its address with eth_signTransaction', async () => {
+    const signer = new RemoteSigner(SIGNER_URL, ADDRESS);
+    await expect(
+      signer.signTransaction({
+        to: '0x0000000000000000000000000000000000000001',
+        value: BigNumber.from(10),
+        gasLimit: BigNumber.from(21_000),
+        nonce: 3,
+        chainId: 10,
+      })
+    ).resolves.toBe('0xsigned');
+
+    expect(fetchJson).toHaveBeenCalledWith(SIGNER_URL, expect.any(String));
+    expect(requests()).toEqual([
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'eth_signTransaction',
+        params: [
+          {
+            from: ADDRESS.toLowerCase(),
+            to: '0x0000000000000000000000000000000000000001',
+            value: '0xa',
+            gas: '0x5208',
+            nonce: '0x3',
+            chainId: '0xa',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('signs messages with eth_sign', async () => {
+    const signer = new RemoteSigner(SIGNER_URL, ADDRESS);
+    await signer.signMessage('hello');
+    await signer.signMessage(utils.arrayify('0x1234'));
+
+    expect(requests()).toEqual([
+      { jsonrpc: '2.0', id: 1, method: 'eth_sign', params: [ADDRESS, '0x68656c6c6f'] },
+      { jsonrpc: '2.0', id: 2, method: 'eth_sign', params: [ADDRESS, '0x1234'] },
+    ]);
+  });
+
+  it('throws JSON-RPC errors', async () => {
+    fetchJson.mockResolvedValue({ error: { code: -32000, message: 'account locked' } });
+    await expect(new RemoteSigner(SIGNER_URL, ADDRESS).signMessage('hello')).rejects.toThrow(
+      "Remote signer 'eth_sign' failed: account locked"
+    );
+
+    fetchJson.mockResolvedValue({ error: { code: -32000 } });
+    await expect(new RemoteSigner(SIGNER_URL, ADDRESS).signMessage('hello')).rejects.toThrow(
+      `Remote signer 'eth_sign' failed: {"code":-32000}`
+    );
+  });
+
+  it('keeps its address when connected to a provider', async () => {
+    const provider = ({} as unknown) as providers.Provider;
+    const signer = new RemoteSigner(SIGNER_URL, ADDRESS).connect(provider);
+    expect(signer.provider).toBe(provider);
+    await expect(signer.getAddress()).resolves.toBe(ADDRESS);
+  });
+});
+
+describe('loadSigners', () => {
+  const provider = ({} as unknown) as providers.BaseProvider;
+  const config = (addresses?: string[]) =>
+    (({
+      ...DEFAULT_CONFIG,
+      signerBackend: SignerBackend.REMOTE,
+      remoteSigner: { url: SIGNER_URL, addresses },
+    } as unknown) as KeeperConfig);
+
+  it('loads every account held by the remote signer', async () => {
+    fetchJson.mockResolvedValue({ result: [ADDRESS.toLowerCase()] });
+    const signers = await loadSigners(config(), provider);
+
+    expect(requests()).toEqual([{ jsonrpc: '2.0', id: 1, method: 'eth_accounts', params: [] }]);
+    expect(signers).toHaveLength(1);
+    await expect(signers[0].getAddress()).resolves.toBe(ADDRESS);
+    expect(signers[0].provider).toBe(provider);
+  });
+
+  it('loads only the configured addresses', async () => {
+    const signers = await loadSigners(config([ADDRESS]), provider);
+    expect(fetchJson).not.toHaveBeenCalled();
+    await expect(signers[0].getAddress()).resolves.toBe(ADDRESS);
+  });
+
+  it('requires at least one account', async () => {
+    fetchJson.mockResolvedValue({ result: [] });
+    await expect(loadSigners(config(), provider)).rejects.toThrow('at least one signer');
+  });
+});
@@ -0,0 +1,83 @@
+import { utils } from 'ethers';
+import { RevertAction, RevertReason, simulate } from '../src/keepers/simulation';
+
+const iface = new utils.Interface(['error MarketSuspended(bytes32 marketKey)']);
+
+const revertWith = (err: unknown) => simulate(() => Promise.reject(err), iface);
+
+const errorString = (message: string) =>
+  utils.hexConcat(['0x08c379a0', utils.defaultAbiCoder.encode(['string'], [message])]);
+
+describe('simulate', () => {
+  it('is undefined when the call succeeds', async () => {
+    expect(await simulate(() => Promise.resolve(true), iface)).toBeUndefined();
+  });
+
+  it('decodes Error(string) reverts', async () => {
+    expect(await revertWith({ data: errorString('Position cannot be liquidated') })).toEqual({
+      reason: RevertReason.CANNOT_LIQUIDATE,
+      action: RevertAction.DROP,
+      message: 'Position cannot be liquidated',
+    });
+  });
+
+  it('recognises calls the keeper is not permitted to make', async () => {
+    expect(await revertWith({ data: errorString('Not permitted by this address') })).toMatchObject({
+      reason: RevertReason.NOT_PERMITTED,
+      action: RevertAction.DROP,
+    });
+  });
+
+  it('decodes panics', async () => {
+    const data = utils.hexConcat(['0x4e487b71', utils.defaultAbiCoder.encode(['uint256'], [0x11])]);
+    expect(await revertWith({ data })).toEqual({
+      reason: RevertReason.UNKNOWN,
+      action: RevertAction.RETRY,
+      message: 'panic (17)',
+    });
+  });
+
+  it('decodes custom errors of the contract and Pyth', async () => {
+    const suspended = iface.encodeErrorResult('MarketSuspended', [
+      utils.formatBytes32String('sETHPERP'),
+    ]);
+    expect(await revertWith({ data: suspended })).toMatchObject({
+      reason: RevertReason.MARKET_SUSPENDED,
+      action: RevertAction.WAIT,
+      message: 'MarketSuspended',
+    });
+
+    const stalePrice = new utils.Interface(['error StalePrice()']).encodeErrorResult('StalePrice');
+    expect(await revertWith({ data: stalePrice })).toMatchObject({
+      reason: RevertReason.STALE_PRICE,
+      message: 'StalePrice',
+    });
+  });
+
+  it('finds revert data nested in provider errors', async () => {
+    // e.g. the FallbackProvider wrapping a JSON-RPC error.
+    const data = errorString('order too late');
+    expect(await revertWith({ error: { error: { data } } })).toMatchObject({
+      reason: RevertReason.ORDER_EXPIRED,
+      action: RevertAction.DROP,
+    });
+    expect(await revertWith({ data: { data } })).toMatchObject({
+      reason: RevertReason.ORDER_EXPIRED,
+    });
+  });
+
+  it('falls back to the reason of call exceptions without revert data', async () => {
+    const err = { code: utils.Logger.errors.CALL_EXCEPTION, reason: 'Market suspended' };
+    expect(await revertWith(err)).toMatchObject({
+      reason: RevertReason.MARKET_SUSPENDED,
+      message: 'Market suspended',
+    });
+  });
+
+  it('rethrows errors unrelated to the call reverting', async () => {
+    const err = Object.assign(new Error('timeout'), { code: utils.Logger.errors.TIMEOUT });
+    await expect(revertWith(err)).rejects.toBe(err);
+    await expect(revertWith('not an error')).rejects.toBe('not an error');
+    await expect(revertWith({ data: '0x' })).rejects.toEqual({ data: '0x' });
+  });
+});
@@ -0,0 +1,74 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SnapshotStore, SNAPSHOT_VERSION } from '../src/snapshot';
+import { Network } from '../src/typed';
+
+const MARKET = '0x2B3bb4c683BFc5239B029131EEf3B1d214478d93';
+
+const data = {
+  market: MARKET,
+  lastProcessedBlock: 100,
+  lastProcessedBlockHash: '0xabc',
+  keepers: { LiquidationKeeper: { positions: { '0x1': { size: 1.5 } } } },
+};
+
+describe('SnapshotStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshots-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('loads a saved snapshot', async () => {
+    const store = new SnapshotStore(dir, Network.OPT);
+    await store.save('sETHPERP', data);
+
+    const snapshot = await store.load('sETHPERP', MARKET.toLowerCase());
+    expect(snapshot).toEqual({
+      ...data,
+      version: SNAPSHOT_VERSION,
+      network: Network.OPT,
+      createdAt: expect.any(Number),
+    });
+  });
+
+  it('ignores missing snapshots', async () => {
+    const store = new SnapshotStore(dir, Network.OPT);
+    expect(await store.load('sETHPERP', MARKET)).toBeUndefined();
+  });
+
+  it('ignores snapshots of another market or network', async () => {
+    await new SnapshotStore(dir, Network.OPT).save('sETHPERP', data);
+
+    const store = new SnapshotStore(dir, Network.OPT);
+    expect(
+      await store.load('sETHPERP', '0x0000000000000000000000000000000000000001')
+    ).toBeUndefined();
+
+    // Snapshots are stored per network, rename to simulate a copied snapshot.
+    const goerli = new SnapshotStore(dir, Network.OPT_GOERLI);
+    await fs.rename(
+      path.join(dir, `${Network.OPT}-sETHPERP.json`),
+      path.join(dir, `${Network.OPT_GOERLI}-sETHPERP.json`)
+    );
+    expect(await goerli.load('sETHPERP', MARKET)).toBeUndefined();
+  });
+
+  it('ignores corrupt snapshots and those of another version', async () => {
+    const store = new SnapshotStore(dir, Network.OPT);
+    const file = path.join(dir, `${Network.OPT}-sETHPERP.json`);
+
+    await fs.writeFile(file, '{"version":');
+    expect(await store.load('sETHPERP', MARKET)).toBeUndefined();
+
+    await store.save('sETHPERP', data);
+    const snapshot = JSON.parse(await fs.readFile(file, 'utf8'));
+    await fs.writeFile(file, JSON.stringify({ ...snapshot, version: SNAPSHOT_VERSION - 1 }));
+    expect(await store.load('sETHPERP', MARKET)).toBeUndefined();
+  });
+});
@@ -0,0 +1,200 @@
+import { EventEmitter } from 'events';
+import { providers } from 'ethers';
+import { Coordinator } from '../src/coordinator';
+import { Distributor } from '../src/distributor';
+import { getEvents } from '../src/keepers/helpers';
+import { Metric, Metrics } from '../src/metrics';
+import { BlockSubscription } from '../src/subscription';
+import { PerpsEvent } from '../src/typed';
+
+jest.mock('ethers', () => {
+  const ethers = jest.requireActual('ethers');
+  return { ...ethers, providers: { ...ethers.providers, WebSocketProvider: jest.fn() } };
+});
+jest.mock('../src/utils', () => ({ delay: jest.fn(), sendTG: jest.fn() }));
+jest.mock('../src/keepers/helpers', () => ({ getEvents: jest.fn(async () => []) }));
+
+const MARKET = '0x0000000000000000000000000000000000000001';
+const RESUBSCRIBE_INTERVAL = 30_000;
+
+// Stands in for a `WebSocketProvider`, notifying listeners of new heads and logs on demand.
+class FakeWebSocketProvider {
+  readonly _websocket = Object.assign(new EventEmitter(), {
+    readyState: 1,
+    ping: jest.fn(),
+    terminate: jest.fn(),
+  });
+  private listeners: [string | providers.Filter, (...args: unknown[]) => void][] = [];
+
+  on(event: string | providers.Filter, listener: (...args: unknown[]) => void) {
+    this.listeners.push([event, listener]);
+    return this;
+  }
+  off(event: providers.Filter) {
+    this.listeners = this.listeners.filter(([e]) => typeof e === 'string' || e !== event);
+    return this;
+  }
+  removeAllListeners() {
+    this.listeners = [];
+    return this;
+  }
+
+  emitBlock(blockNumber: number) {
+    this.listeners.filter(([e]) => e === 'block').forEach(([, listener]) => listener(blockNumber));
+  }
+  emitLog(log: Partial<providers.Log>) {
+    this.listeners.filter(([e]) => typeof e !== 'string').forEach(([, listener]) => listener(log));
+  }
+}
+
+const filter = { topics: [['0xtopic']], addresses: [MARKET] };
+
+describe('BlockSubscription', () => {
+  let sockets: FakeWebSocketProvider[];
+  let metrics: Metrics;
+  let subscription: BlockSubscription;
+
+  // Whether `wait` resolved on a notification, rather than timing out.
+  const isNotified = async () => {
+    const waiting = subscription.wait(1000).then(() => true);
+    return Promise.race([waiting, Promise.resolve().then(() => false)]);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sockets = [];
+    ((providers.WebSocketProvider as unknown) as jest.Mock).mockImplementation(() => {
+      const socket = new FakeWebSocketProvider();
+      sockets.push(socket);
+      return socket;
+    });
+    metrics = ({ count: jest.fn(), gauge: jest.fn(), time: jest.fn() } as unknown) as Metrics;
+    subscription = new BlockSubscription('wss://rpc.example.com', metrics, RESUBSCRIBE_INTERVAL);
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('notifies on new heads and logs of subscribed markets', async () => {
+    subscription.subscribe(filter);
+    expect(subscription.isSubscribed).toBe(true);
+
+    sockets[0].emitBlock(1);
+    expect(await isNotified()).toBe(true);
+
+    sockets[0].emitLog({ address: '0x0000000000000000000000000000000000000002' });
+    expect(await isNotified()).toBe(false);
+    jest.advanceTimersByTime(1000);
+
+    sockets[0].emitLog({ address: MARKET });
+    expect(await isNotified()).toBe(true);
+  });
+
+  it('falls back to polling when dropped, then resubscribes', async () => {
+    subscription.subscribe(filter);
+    sockets[0]._websocket.emit('close', 1006);
+
+    expect(subscription.isSubscribed).toBe(false);
+    expect(metrics.count).toHaveBeenCalledWith(Metric.SUBSCRIPTION_DISCONNECTED);
+    expect(sockets[0]._websocket.terminate).toHaveBeenCalled();
+    // The coordinator is woken up rather than waiting on a notification that won't arrive.
+    expect(await isNotified()).toBe(true);
+
+    // Updating the filter while disconnected does not connect ahead of the pending resubscribe.
+    subscription.subscribe(filter);
+    expect(sockets).toHaveLength(1);
+
+    jest.advanceTimersByTime(RESUBSCRIBE_INTERVAL);
+    expect(sockets).toHaveLength(2);
+    expect(subscription.isSubscribed).toBe(true);
+
+    // Events from the dropped socket are ignored.
+    sockets[0]._websocket.emit('close', 1006);
+    expect(subscription.isSubscribed).toBe(true);
+
+    sockets[1].emitLog({ address: MARKET });
+    expect(await isNotified()).toBe(true);
+  });
+
+  it('terminates sockets which stop responding to pings', () => {
+    subscription.subscribe(filter);
+    const { _websocket: websocket } = sockets[0];
+
+    jest.advanceTimersByTime(15_000);
+    expect(websocket.ping).toHaveBeenCalledTimes(1);
+    websocket.emit('pong');
+    jest.advanceTimersByTime(10_000);
+    expect(websocket.terminate).not.toHaveBeenCalled();
+
+    // The next ping goes unanswered.
+    jest.advanceTimersByTime(5_000);
+    expect(websocket.ping).toHaveBeenCalledTimes(2);
+    jest.advanceTimersByTime(10_000);
+    expect(websocket.terminate).toHaveBeenCalled();
+  });
+
+  it('processes every block across a reconnect', async () => {
+    let latestBlock = 10;
+    const block = (number: number) =>
+      ({ number, hash: `0x${number}`, parentHash: `0x${number - 1}` } as providers.Block);
+    const provider = ({
+      getBlock: jest.fn(async (tag: string | number) =>
+        block(tag === 'latest' ? latestBlock : (tag as number))
+      ),
+    } as unknown) as providers.BaseProvider;
+    const distributor = ({
+      market: { address: MARKET },
+      marketKey: 'sETHPERP',
+      getEventsOfInterest: () => [PerpsEvent.PositionModified],
+      disburse: jest.fn(),
+      execute: jest.fn(),
+    } as unknown) as Distributor;
+
+    const coordinator = new Coordinator(
+      provider,
+      metrics,
+      0,
+      1000,
+      Number.MAX_SAFE_INTEGER,
+      subscription
+    );
+    coordinator.registerDistributors([distributor]);
+    coordinator['recordProcessedBlock'](block(latestBlock));
+    subscription.subscribe(filter);
+
+    // Waits for the next notification (or polls), then processes the latest block.
+    const tick = async (notify: () => void) => {
+      const waiting = coordinator['waitForNextBlock']();
+      notify();
+      await waiting;
+      await coordinator['processBlock']();
+    };
+
+    latestBlock = 11;
+    await tick(() => sockets[0].emitBlock(11));
+
+    // Dropped while blocks are produced.
+    latestBlock = 13;
+    await tick(() => sockets[0]._websocket.emit('close', 1006));
+
+    latestBlock = 14;
+    await tick(() => jest.advanceTimersByTime(1000));
+
+    jest.advanceTimersByTime(RESUBSCRIBE_INTERVAL);
+    latestBlock = 16;
+    await tick(() => sockets[1].emitBlock(16));
+
+    const ranges = (getEvents as jest.Mock).mock.calls.map(([, , , { fromBlock, toBlock }]) => [
+      fromBlock,
+      toBlock,
+    ]);
+    expect(ranges).toEqual([
+      [11, 11],
+      [12, 13],
+      [14, 14],
+      [15, 16],
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { TransactionResponse } from '@ethersproject/providers';
+import { BigNumber, providers, Signer, utils } from 'ethers';
+import { FixedFeeStrategy } from '../src/fees';
+import { Metrics } from '../src/metrics';
+import { delay, sendTG } from '../src/utils';
+import { TxWatchdog } from '../src/watchdog';
+
+jest.mock('../src/utils', () => ({ delay: jest.fn(), sendTG: jest.fn() }));
+
+const gwei = (value: number) => utils.parseUnits(`${value}`, 'gwei');
+
+const config = {
+  replaceAfterBlocks: 5,
+  feeBumpPercent: 20,
+  maxReplacements: 3,
+  pollInterval: 2000,
+  timeout: 60_000,
+};
+
+const FROM = '0x0000000000000000000000000000000000000001';
+
+const tx = ({
+  hash: '0xoriginal',
+  from: FROM,
+  to: '0x0000000000000000000000000000000000000002',
+  data: '0x1234',
+  value: BigNumber.from(0),
+  gasLimit: BigNumber.from(100_000),
+  nonce: 7,
+  maxFeePerGas: gwei(10),
+  maxPriorityFeePerGas: gwei(1),
+} as unknown) as TransactionResponse;
+
+describe('TxWatchdog', () => {
+  // Time (ms) advanced by waiting, with a block every 2s.
+  let now: number;
+  let mined: Record<string, { transactionHash: string; status: number }>;
+  let sendTransaction: jest.Mock;
+
+  const provider = ({
+    getBlockNumber: async () => Math.floor(now / 2000),
+    getTransactionReceipt: async (hash: string) => mined[hash] ?? null,
+    getTransactionCount: async () => tx.nonce,
+    call: async () => '0x',
+  } as unknown) as providers.BaseProvider;
+  const signer = ({
+    sendTransaction: (request: unknown) => sendTransaction(request),
+  } as unknown) as Signer;
+  const metrics = ({ count: jest.fn() } as unknown) as Metrics;
+
+  const createWatchdog = (maxFeeCap?: BigNumber) =>
+    new TxWatchdog(
+      provider,
+      new FixedFeeStrategy({ maxFeePerGas: gwei(1), maxPriorityFeePerGas: gwei(0.1) }),
+      maxFeeCap,
+      metrics,
+      config
+    );
+
+  beforeEach(() => {
+    now = 0;
+    mined = {};
+    sendTransaction = jest.fn();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    (delay as jest.Mock).mockImplementation(async (ms: number) => {
+      now += ms;
+    });
+    (sendTG as jest.Mock).mockClear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('replaces pending transactions with fees bumped by the configured step', async () => {
+    sendTransaction.mockImplementation(async () => {
+      mined['0xreplacement'] = { transactionHash: '0xreplacement', status: 1 };
+      return { ...tx, hash: '0xreplacement' };
+    });
+
+    const receipt = await createWatchdog().wait(tx, signer);
+
+    expect(receipt.transactionHash).toBe('0xreplacement');
+    expect(sendTransaction).toHaveBeenCalledTimes(1);
+    expect(sendTransaction.mock.calls[0][0]).toMatchObject({
+      nonce: 7,
+      data: tx.data,
+      maxFeePerGas: gwei(12),
+      maxPriorityFeePerGas: gwei(1.2),
+    });
+    expect(now).toBeGreaterThanOrEqual(config.replaceAfterBlocks * 2000);
+  });
+
+  it('caps replacement fees at the max fee cap', async () => {
+    sendTransaction.mockImplementation(async () => {
+      mined['0xreplacement'] = { transactionHash: '0xreplacement', status: 1 };
+      return { ...tx, hash: '0xreplacement' };
+    });
+
+    await createWatchdog(gwei(11)).wait(tx, signer);
+
+    expect(sendTransaction.mock.calls[0][0]).toMatchObject({
+      maxFeePerGas: gwei(11),
+      maxPriorityFeePerGas: gwei(1.2),
+    });
+  });
+
+  it('gives up on transactions stuck at the max fee cap', async () => {
+    await expect(createWatchdog(gwei(10)).wait(tx, signer)).rejects.toThrow(
+      'Transaction not mined in 60000ms (nonce 7, 0xoriginal)'
+    );
+
+    expect(sendTransaction).not.toHaveBeenCalled();
+    expect(sendTG).toHaveBeenCalledTimes(1);
+    expect(now).toBeGreaterThanOrEqual(config.timeout);
+  });
+
+  it.each([
+    ['nonce used', Object.assign(new Error('nonce too low'), { code: 'NONCE_EXPIRED' })],
+    ['already known', new Error('already known')],
+  ])('checks receipts again when a replacement is rejected as %s', async (_, err) => {
+    sendTransaction.mockImplementation(async () => {
+      mined[tx.hash] = { transactionHash: tx.hash, status: 1 };
+      throw err;
+    });
+
+    const receipt = await createWatchdog().wait(tx, signer);
+
+    expect(receipt.transactionHash).toBe(tx.hash);
+  });
+
+  it('throws other replacement errors', async () => {
+    sendTransaction.mockRejectedValue(new Error('insufficient funds'));
+
+    await expect(createWatchdog().wait(tx, signer)).rejects.toThrow('insufficient funds');
+  });
+});